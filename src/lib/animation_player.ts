@@ -0,0 +1,177 @@
+import * as THREE from "three"
+
+export const loopModes = ["repeat", "once", "pingpong"] as const
+
+export type LoopMode = (typeof loopModes)[number]
+
+const loopConstants: Record<LoopMode, THREE.AnimationActionLoopStyles> = {
+  repeat: THREE.LoopRepeat,
+  once: THREE.LoopOnce,
+  pingpong: THREE.LoopPingPong,
+}
+
+// Plays the clips of one loaded model. Switching clips cross-fades from the
+// current one, and pausing stops the mixer so fades freeze as well
+export class AnimationPlayer {
+  public readonly clips: THREE.AnimationClip[]
+  public playing = false
+  private root: THREE.Object3D
+  private mixer: THREE.AnimationMixer
+  private action: THREE.AnimationAction | null = null
+  private loop: LoopMode = "repeat"
+
+  constructor(root: THREE.Object3D, clips: THREE.AnimationClip[]) {
+    this.root = root
+    this.clips = clips
+    this.mixer = new THREE.AnimationMixer(root)
+  }
+
+  public get clipIndex(): number {
+    return this.action ? this.clips.indexOf(this.action.getClip()) : -1
+  }
+
+  public get duration(): number {
+    return this.action?.getClip().duration ?? 0
+  }
+
+  public get time(): number {
+    return this.action?.time ?? 0
+  }
+
+  public get speed(): number {
+    return this.mixer.timeScale
+  }
+
+  public set speed(value: number) {
+    this.mixer.timeScale = value
+  }
+
+  public get loopMode(): LoopMode {
+    return this.loop
+  }
+
+  public set loopMode(mode: LoopMode) {
+    this.loop = mode
+    if (this.action) this.setupLoop(this.action)
+  }
+
+  public play(index: number, blendDuration: number = 0): void {
+    const clip = this.clips[index]
+    if (!clip) return
+
+    const next = this.mixer.clipAction(clip)
+    if (next !== this.action) {
+      this.setupLoop(next)
+      next.reset().setEffectiveWeight(1).play()
+      if (this.action && blendDuration > 0) {
+        this.action.crossFadeTo(next, blendDuration, false)
+      } else {
+        this.action?.stop()
+      }
+      this.action = next
+    }
+    this.resume()
+  }
+
+  public pause(): void {
+    this.playing = false
+  }
+
+  public resume(): void {
+    if (!this.action) {
+      this.play(0)
+      return
+    }
+    // A clip played once is clamped on its last frame until it is restarted
+    if (this.loop === "once" && this.time >= this.duration) this.action.reset()
+    this.action.paused = false
+    this.playing = true
+  }
+
+  // Poses the model at the given clip time without advancing other actions
+  public setTime(time: number): void {
+    if (!this.action) return
+    this.action.time = THREE.MathUtils.clamp(time, 0, this.duration)
+    this.mixer.update(0)
+  }
+
+  public update(delta: number): void {
+    if (this.playing) this.mixer.update(delta)
+  }
+
+  public dispose(): void {
+    this.mixer.stopAllAction()
+    this.mixer.uncacheRoot(this.root)
+    this.action = null
+    this.playing = false
+  }
+
+  private setupLoop(action: THREE.AnimationAction): void {
+    action.setLoop(loopConstants[this.loop], Infinity)
+    action.clampWhenFinished = this.loop === "once"
+  }
+}
+
+// Copies the object in world space with skinned and morphed meshes baked
+// into plain meshes at their current pose, for exporters that only read the
+// geometry attributes
+export function clonePosed(object: THREE.Object3D): THREE.Object3D {
+  // updateMatrixWorld also refreshes the bind matrices of skinned meshes
+  object.updateWorldMatrix(true, false)
+  object.updateMatrixWorld(true)
+  const originals: THREE.Object3D[] = []
+  object.traverse((child) => {
+    originals.push(child)
+  })
+
+  let copy = object.clone()
+  copy.matrix.copy(object.matrixWorld)
+  copy.matrix.decompose(copy.position, copy.quaternion, copy.scale)
+
+  const copies: THREE.Object3D[] = []
+  copy.traverse((child) => {
+    copies.push(child)
+  })
+
+  originals.forEach((original, i) => {
+    if (!(original instanceof THREE.Mesh) || !isDeformed(original)) return
+
+    const source = copies[i]
+    const mesh = new THREE.Mesh(bakePose(original), original.material)
+    mesh.name = source.name
+    mesh.position.copy(source.position)
+    mesh.quaternion.copy(source.quaternion)
+    mesh.scale.copy(source.scale)
+    mesh.add(...source.children)
+    if (source.parent) source.parent.add(mesh)
+    source.removeFromParent()
+    if (source === copy) copy = mesh
+  })
+
+  copy.updateMatrixWorld(true)
+  return copy
+}
+
+function isDeformed(mesh: THREE.Mesh): boolean {
+  return (
+    mesh instanceof THREE.SkinnedMesh ||
+    (mesh.morphTargetInfluences?.some((influence) => influence !== 0) ?? false)
+  )
+}
+
+function bakePose(mesh: THREE.Mesh): THREE.BufferGeometry {
+  const geometry = mesh.geometry.clone()
+  geometry.morphAttributes = {}
+  geometry.deleteAttribute("skinIndex")
+  geometry.deleteAttribute("skinWeight")
+
+  const position = geometry.getAttribute("position")
+  const vertex = new THREE.Vector3()
+  const baked = new Float32Array(position.count * 3)
+  for (let i = 0; i < position.count; i++) {
+    mesh.getVertexPosition(i, vertex).toArray(baked, i * 3)
+  }
+  geometry.setAttribute("position", new THREE.BufferAttribute(baked, 3))
+  geometry.computeVertexNormals()
+  return geometry
+}
@@ -0,0 +1,93 @@
+import * as THREE from "three"
+
+export const explodeLevels = ["meshes", "nodes"] as const
+
+export type ExplodeLevel = (typeof explodeLevels)[number]
+
+interface ExplodedPart {
+  object: THREE.Object3D
+  // World space offset of the part at a distance of 1, from the center of
+  // its model to its own center
+  direction: THREE.Vector3
+  // Offset currently added to the part's position, in its parent's space
+  applied: THREE.Vector3
+}
+
+// Moves the parts of each model away from the model's center, in proportion
+// to how far they are from it. Offsets are added to the parts' positions
+// rather than replacing them, so parts moved while exploded keep their moves
+export class ExplodedView {
+  public distance = 0
+  public readonly axes = { x: true, y: true, z: true }
+  private parts: ExplodedPart[] = []
+
+  // Collapses the current parts and explodes the given models instead
+  public setup(models: THREE.Object3D[], level: ExplodeLevel): void {
+    this.reset()
+    for (const model of models) {
+      const center = new THREE.Box3()
+        .setFromObject(model)
+        .getCenter(new THREE.Vector3())
+      for (const object of explodedParts(model, level)) {
+        const direction = new THREE.Box3()
+          .setFromObject(object)
+          .getCenter(new THREE.Vector3())
+          .sub(center)
+        this.parts.push({ object, direction, applied: new THREE.Vector3() })
+      }
+    }
+    this.update()
+  }
+
+  public update(): void {
+    const offset = new THREE.Vector3()
+    const toParent = new THREE.Matrix3()
+    for (const part of this.parts) {
+      const parent = part.object.parent
+      if (!parent) continue
+      parent.updateWorldMatrix(true, false)
+      toParent.setFromMatrix4(parent.matrixWorld).invert()
+
+      offset
+        .set(
+          this.axes.x ? part.direction.x : 0,
+          this.axes.y ? part.direction.y : 0,
+          this.axes.z ? part.direction.z : 0,
+        )
+        .multiplyScalar(this.distance)
+        .applyMatrix3(toParent)
+      part.object.position.sub(part.applied).add(offset)
+      part.applied.copy(offset)
+    }
+  }
+
+  public reset(): void {
+    for (const { object, applied } of this.parts) object.position.sub(applied)
+    this.parts = []
+  }
+}
+
+// The meshes of the model, leaving out meshes that are children of another
+// mesh in the scene graph since they move with it, or its top-level nodes
+// below any single-child wrapper nodes
+function explodedParts(
+  model: THREE.Object3D,
+  level: ExplodeLevel,
+): THREE.Object3D[] {
+  if (level === "nodes") {
+    let node = model
+    while (node.children.length === 1) node = node.children[0]
+    return node.children
+  }
+
+  const meshes: THREE.Object3D[] = []
+  const visit = (object: THREE.Object3D) => {
+    if (object instanceof THREE.Mesh) {
+      meshes.push(object)
+      return
+    }
+    for (const child of object.children) visit(child)
+  }
+  visit(model)
+  return meshes
+}
@@ -1,4 +1,24 @@
 import * as THREE from "three"
+import {
+  type AttributeArray,
+  addRepairs,
+  analyzeMeshBuffers,
+  emptyRepairs,
+  type GeometryAnalysis,
+  type IndexedMesh,
+  type IndexedMeshRepair,
+  locateMeshIssues,
+  type MeshAttribute,
+  type MeshIssueLocations,
+  type MeshRepairOptions,
+  type MeshRepairResults,
+  type RepairOperationName,
+  repairIndexedMesh,
+  repairOperations,
+  selectRepairOperations,
+} from "./geometry_fix_core"
+import { findSelfIntersections } from "./geometry_intersections"
+import { type SimplifyOptions, simplifyIndexedMesh } from "./mesh_simplify"
 
 interface MeshData {
   mesh: THREE.Mesh
@@ -6,20 +26,7 @@ interface MeshData {
   originalGeometry: THREE.BufferGeometry
 }
 
-interface GeometryAnalysis {
-  vertices: number
-  faces: number
-  duplicateVertices: number
-  looseVertices: number
-  nonManifoldEdges: number
-  nonManifoldVertices: number
-  degenerateFaces: number
-  boundaryEdges: number
-  meshName?: string
-  meshIndex?: number
-}
-
-interface TotalStats {
+export interface TotalStats {
   meshes: number
   vertices: number
   faces: number
@@ -29,6 +36,7 @@ interface TotalStats {
   nonManifoldVertices: number
   degenerateFaces: number
   boundaryEdges: number
+  selfIntersections?: number
   totalIssues?: number
 }
 
@@ -37,20 +45,39 @@ interface AnalysisResult {
   meshAnalysis: GeometryAnalysis[]
 }
 
-interface RepairOptions {
-  mergeTolerance?: number
-  onProgress?: (percent: number, operation: string) => void
-  skipOperations?: string[]
-  ensureManifold?: boolean
+// Outcome of one repair operation on one mesh, computed without touching the
+// mesh. Highlight data is given as positions in the mesh's local space
+export interface MeshRepairPreview {
+  mesh: THREE.Mesh
+  name: string
+  geometry: THREE.BufferGeometry
+  repairs: Record<string, number>
+  before: GeometryAnalysis
+  after: GeometryAnalysis
+  // Vertices the operation drops, as xyz triples
+  removedVertices: Float32Array
+  // Edges of removed or rewound faces, and of new or rewound faces, as segment pairs
+  removedEdges: Float32Array
+  addedEdges: Float32Array
 }
 
-interface RepairOperation {
+export interface MeshIssues {
+  mesh: THREE.Mesh
   name: string
-  fn: () => number | Promise<number>
+  issues: MeshIssueLocations
 }
 
-interface RepairResults {
-  repairs: Record<string, number>
+interface AnalysisOptions {
+  // Self-intersection detection builds a BVH per mesh, so it only runs when
+  // asked for
+  detectIntersections?: boolean
+}
+
+interface RepairOptions extends MeshRepairOptions {
+  ensureManifold?: boolean
+}
+
+interface RepairResults extends MeshRepairResults {
   finalAnalysis: AnalysisResult
 }
 
@@ -88,60 +115,42 @@ export class GeometryRepairer {
     )
   }
 
-  public analyzeGeometry(object3D: THREE.Object3D): AnalysisResult {
+  public analyzeGeometry(
+    object3D: THREE.Object3D,
+    options: AnalysisOptions = {},
+  ): AnalysisResult {
+    const { detectIntersections = false } = options
     this.extractMeshes(object3D)
     this.analysisResults = []
 
-    const totalStats: TotalStats = {
-      meshes: this.meshes.length,
-      vertices: 0,
-      faces: 0,
-      duplicateVertices: 0,
-      looseVertices: 0,
-      nonManifoldEdges: 0,
-      nonManifoldVertices: 0,
-      degenerateFaces: 0,
-      boundaryEdges: 0,
-    }
-
     this.meshes.forEach((meshData: MeshData, index: number) => {
       const analysis = this.analyzeSingleMesh(meshData.mesh.geometry)
       analysis.meshName = meshData.name
       analysis.meshIndex = index
+      if (detectIntersections) {
+        analysis.selfIntersections = findSelfIntersections(
+          meshData.mesh.geometry,
+        ).pairs
+      }
 
       this.analysisResults.push(analysis)
 
-      totalStats.vertices += analysis.vertices
-      totalStats.faces += analysis.faces
-      totalStats.duplicateVertices += analysis.duplicateVertices
-      totalStats.looseVertices += analysis.looseVertices
-      totalStats.nonManifoldEdges += analysis.nonManifoldEdges
-      totalStats.nonManifoldVertices += analysis.nonManifoldVertices || 0
-      totalStats.degenerateFaces += analysis.degenerateFaces || 0
-      totalStats.boundaryEdges += analysis.boundaryEdges || 0
-
       const meshIssues =
         (analysis.duplicateVertices || 0) +
         (analysis.looseVertices || 0) +
         (analysis.nonManifoldEdges || 0) +
         (analysis.nonManifoldVertices || 0) +
-        (analysis.degenerateFaces || 0)
+        (analysis.degenerateFaces || 0) +
+        (analysis.selfIntersections || 0)
 
       console.log(
         `${meshData.name}: ${analysis.vertices}v, ${analysis.faces}f, ${meshIssues} issues`,
       )
     })
 
-    const totalIssues =
-      totalStats.duplicateVertices +
-      totalStats.looseVertices +
-      totalStats.nonManifoldEdges +
-      totalStats.nonManifoldVertices +
-      totalStats.degenerateFaces
-
-    totalStats.totalIssues = totalIssues
+    const totalStats = sumAnalyses(this.analysisResults)
     console.log(
-      `Total analysis: ${totalStats.meshes} meshes, ${totalStats.vertices} vertices, ${totalStats.faces} faces, ${totalIssues} issues`,
+      `Total analysis: ${totalStats.meshes} meshes, ${totalStats.vertices} vertices, ${totalStats.faces} faces, ${totalStats.totalIssues} issues`,
     )
 
     return {
@@ -150,183 +159,22 @@ export class GeometryRepairer {
     }
   }
 
-  private analyzeSingleMesh(geometry: THREE.BufferGeometry): GeometryAnalysis {
-    const positionAttribute = geometry.attributes
-      .position as THREE.BufferAttribute
-    const positions = positionAttribute.array as Float32Array
-    const indices = geometry.index?.array as Uint16Array | Uint32Array | null
-
-    const analysis: GeometryAnalysis = {
-      vertices: positions.length / 3,
-      faces: indices ? indices.length / 3 : positions.length / 9,
-      duplicateVertices: 0,
-      looseVertices: 0,
-      nonManifoldEdges: 0,
-      nonManifoldVertices: 0,
-      degenerateFaces: 0,
-      boundaryEdges: 0,
-    }
-
-    // Fast duplicate vertex detection using spatial hashing
-    analysis.duplicateVertices = this.countDuplicateVerticesFast(positions)
-
-    if (indices) {
-      // Single-pass analysis for optimal performance
-      const edgeCount = new Map<number, number>()
-      const vertexFaceCount = new Array<number>(analysis.vertices).fill(0)
-      const vertexEdgeSet = new Array<Set<number>>(analysis.vertices)
-
-      // Initialize vertex edge sets
-      for (let i = 0; i < analysis.vertices; i++) {
-        vertexEdgeSet[i] = new Set()
-      }
-
-      // Single pass through faces
-      for (let i = 0; i < indices.length; i += 3) {
-        const a = indices[i],
-          b = indices[i + 1],
-          c = indices[i + 2]
-
-        // Quick degenerate face check
-        if (a === b || b === c || c === a) {
-          analysis.degenerateFaces++
-          continue
-        }
-
-        // Check for zero-area faces (simplified)
-        if (this.isZeroAreaFace(positions, a, b, c)) {
-          analysis.degenerateFaces++
-          continue
-        }
-
-        // Count valid faces
-        vertexFaceCount[a]++
-        vertexFaceCount[b]++
-        vertexFaceCount[c]++
-
-        // Process edges using numeric keys for performance
-        const edges = [
-          this.getEdgeKey(a, b),
-          this.getEdgeKey(b, c),
-          this.getEdgeKey(c, a),
-        ]
-
-        for (let j = 0; j < 3; j++) {
-          const edgeKey = edges[j]
-          const count = edgeCount.get(edgeKey) || 0
-          edgeCount.set(edgeKey, count + 1)
-
-          // Track vertex connectivity
-          const [v1, v2] = this.decodeEdgeKey(edgeKey)
-          vertexEdgeSet[v1].add(v2)
-          vertexEdgeSet[v2].add(v1)
-        }
-      }
+  public locateIssues(object3D: THREE.Object3D): MeshIssues[] {
+    this.extractMeshes(object3D)
 
-      // Analyze edge manifoldness in single pass
-      let boundaryEdgeCount = 0
-      for (const count of edgeCount.values()) {
-        if (count === 1) {
-          boundaryEdgeCount++
-        } else if (count > 2) {
-          analysis.nonManifoldEdges++
-        }
-      }
-      analysis.boundaryEdges = boundaryEdgeCount
-
-      // Fast vertex analysis
-      for (let i = 0; i < analysis.vertices; i++) {
-        if (vertexFaceCount[i] === 0) {
-          analysis.looseVertices++
-        } else {
-          // Simplified non-manifold vertex detection
-          const expectedEdges = vertexFaceCount[i]
-          const actualEdges = vertexEdgeSet[i].size
-          if (actualEdges > expectedEdges + 1) {
-            analysis.nonManifoldVertices++
-          }
-        }
-      }
-    }
+    return this.meshes.map(({ mesh, name }) => {
+      // Interleaved and quantized positions are decoded as for repairs
+      const positions = readFloats(mesh.geometry.getAttribute("position"))
+      const indices = mesh.geometry.index?.array ?? null
 
-    return analysis
+      return { mesh, name, issues: locateMeshIssues(positions, indices) }
+    })
   }
 
-  private countDuplicateVerticesFast(positions: Float32Array): number {
-    const tolerance = 0.000001
-    const scale = 1 / tolerance
-    const vertexSet = new Set<number>()
-    let duplicates = 0
-
-    for (let i = 0; i < positions.length; i += 3) {
-      // Use a single number as hash key for better performance
-      const x = Math.round(positions[i] * scale)
-      const y = Math.round(positions[i + 1] * scale)
-      const z = Math.round(positions[i + 2] * scale)
-
-      // Combine coordinates into single hash
-      const hash = (x * 73856093) ^ (y * 19349663) ^ (z * 83492791)
-
-      if (vertexSet.has(hash)) {
-        duplicates++
-      } else {
-        vertexSet.add(hash)
-      }
-    }
-
-    return duplicates
-  }
-
-  private isZeroAreaFace(
-    positions: Float32Array,
-    a: number,
-    b: number,
-    c: number,
-  ): boolean {
-    const tolerance = 0.000001
-
-    // Get vertex positions
-    const ax = positions[a * 3],
-      ay = positions[a * 3 + 1],
-      az = positions[a * 3 + 2]
-    const bx = positions[b * 3],
-      by = positions[b * 3 + 1],
-      bz = positions[b * 3 + 2]
-    const cx = positions[c * 3],
-      cy = positions[c * 3 + 1],
-      cz = positions[c * 3 + 2]
-
-    // Calculate cross product of two edges
-    const abx = bx - ax,
-      aby = by - ay,
-      abz = bz - az
-    const acx = cx - ax,
-      acy = cy - ay,
-      acz = cz - az
-
-    const crossX = aby * acz - abz * acy
-    const crossY = abz * acx - abx * acz
-    const crossZ = abx * acy - aby * acx
-
-    // Check if cross product length is below tolerance
-    const lengthSq = crossX * crossX + crossY * crossY + crossZ * crossZ
-    return lengthSq < tolerance * tolerance
-  }
-
-  private getEdgeKey(a: number, b: number): number {
-    // Use Cantor pairing function for unique edge keys
-    const min = Math.min(a, b)
-    const max = Math.max(a, b)
-    return ((min + max) * (min + max + 1)) / 2 + max
-  }
-
-  private decodeEdgeKey(key: number): [number, number] {
-    // Reverse Cantor pairing (simplified for our use case)
-    const w = Math.floor((Math.sqrt(8 * key + 1) - 1) / 2)
-    const t = (w * w + w) / 2
-    const max = key - t
-    const min = w - max
-    return [min, max]
+  private analyzeSingleMesh(geometry: THREE.BufferGeometry): GeometryAnalysis {
+    // Interleaved and quantized positions are decoded as for repairs
+    const positions = readFloats(geometry.getAttribute("position"))
+    return analyzeMeshBuffers(positions, geometry.index?.array ?? null)
   }
 
   public validateManifoldGeometry(object3D: THREE.Object3D): boolean {
@@ -372,317 +220,184 @@ export class GeometryRepairer {
     object3D: THREE.Object3D,
     tolerance: number = 0.000001,
   ): number {
-    this.extractMeshes(object3D)
-    let totalMerged = 0
+    return this.runOperation(object3D, "mergeVertices", {
+      mergeTolerance: tolerance,
+    })
+  }
 
-    console.log(`Merging vertices for ${this.meshes.length} meshes...`)
+  public removeLooseVertices(object3D: THREE.Object3D): number {
+    return this.runOperation(object3D, "removeLooseVertices")
+  }
 
-    this.meshes.forEach((meshData: MeshData) => {
-      const merged = this.mergeVerticesForMesh(meshData.mesh, tolerance)
-      totalMerged += merged
-      console.log(`${meshData.name}: merged ${merged} duplicate vertices`)
-    })
+  public fixNonManifoldEdges(object3D: THREE.Object3D): number {
+    return this.runOperation(object3D, "fixNonManifoldEdges")
+  }
 
-    console.log(`Total merged vertices across all meshes: ${totalMerged}`)
-    return totalMerged
+  public removeDegenerateFaces(object3D: THREE.Object3D): number {
+    return this.runOperation(object3D, "removeDegenerateFaces")
   }
 
-  private mergeVerticesForMesh(
-    mesh: THREE.Mesh,
-    tolerance: number = 0.000001,
+  public fillHoles(
+    object3D: THREE.Object3D,
+    maxHoleEdges: number = 32,
   ): number {
-    const geometry = mesh.geometry as THREE.BufferGeometry
-    const positionAttribute = geometry.attributes
-      .position as THREE.BufferAttribute
-    const positions = positionAttribute.array as Float32Array
-    const normalAttribute = geometry.attributes.normal as
-      | THREE.BufferAttribute
-      | undefined
-    const normals = normalAttribute?.array as Float32Array | null
-    const uvAttribute = geometry.attributes.uv as
-      | THREE.BufferAttribute
-      | undefined
-    const uvs = uvAttribute?.array as Float32Array | null
-    const indices = geometry.index?.array as Uint16Array | Uint32Array | null
-
-    const vertexMap = new Map<string, number>()
-    const newPositions: number[] = []
-    const newNormals: number[] | null = normals ? [] : null
-    const newUvs: number[] | null = uvs ? [] : null
-    const indexRemap = new Map<number, number>()
-
-    let mergedCount = 0
-
-    for (let i = 0; i < positions.length; i += 3) {
-      const key = `${Math.round(positions[i] / tolerance) * tolerance},${Math.round(positions[i + 1] / tolerance) * tolerance},${Math.round(positions[i + 2] / tolerance) * tolerance}`
-
-      if (!vertexMap.has(key)) {
-        const newIndex = newPositions.length / 3
-        vertexMap.set(key, newIndex)
-
-        newPositions.push(positions[i], positions[i + 1], positions[i + 2])
-        if (newNormals && normals) {
-          newNormals.push(normals[i], normals[i + 1], normals[i + 2])
-        }
-        if (newUvs && uvs) {
-          const uvIndex = (i / 3) * 2
-          if (uvIndex + 1 < uvs.length) {
-            newUvs.push(uvs[uvIndex], uvs[uvIndex + 1])
-          }
-        }
-      } else {
-        mergedCount++
-      }
-
-      indexRemap.set(i / 3, vertexMap.get(key)!)
-    }
+    return this.runOperation(object3D, "fillHoles", { maxHoleEdges })
+  }
 
-    const newIndices = indices
-      ? Array.from(indices).map((i) => indexRemap.get(i)!)
-      : null
-    this.updateMeshGeometry(mesh, newPositions, newNormals, newUvs, newIndices)
+  public orientFaces(object3D: THREE.Object3D): number {
+    return this.runOperation(object3D, "orientFaces")
+  }
 
-    return mergedCount
+  public recalculateNormals(object3D: THREE.Object3D): number {
+    return this.runOperation(object3D, "recalculateNormals")
   }
 
-  public removeLooseVertices(object3D: THREE.Object3D): number {
+  private runOperation(
+    object3D: THREE.Object3D,
+    operation: RepairOperationName,
+    options: MeshRepairOptions = {},
+  ): number {
     this.extractMeshes(object3D)
-    let totalRemoved = 0
+    let total = 0
 
-    console.log(`Removing loose vertices for ${this.meshes.length} meshes...`)
+    console.log(`Running ${operation} for ${this.meshes.length} meshes...`)
 
     this.meshes.forEach((meshData: MeshData) => {
-      const removed = this.removeLooseVerticesForMesh(meshData.mesh)
-      totalRemoved += removed
-      console.log(`${meshData.name}: removed ${removed} loose vertices`)
+      const { repairs } = this.repairMesh(meshData.mesh, {
+        ...options,
+        skipOperations: repairOperations.filter((name) => name !== operation),
+        includeOperations: [operation],
+      })
+      total += repairs[operation]
+      console.log(`${meshData.name}: ${operation} ${repairs[operation]}`)
     })
 
-    console.log(
-      `Total loose vertices removed across all meshes: ${totalRemoved}`,
-    )
-    return totalRemoved
+    console.log(`Total ${operation} across all meshes: ${total}`)
+    return total
   }
 
-  private removeLooseVerticesForMesh(mesh: THREE.Mesh): number {
-    const geometry = mesh.geometry as THREE.BufferGeometry
-    const indices = geometry.index?.array as Uint16Array | Uint32Array | null
-
-    if (!indices) {
-      console.log("Cannot remove loose vertices from non-indexed geometry")
-      return 0
-    }
-
-    const usedVertices = new Set<number>()
-    for (let i = 0; i < indices.length; i++) {
-      usedVertices.add(indices[i])
-    }
-
-    const positionAttribute = geometry.attributes
-      .position as THREE.BufferAttribute
-    const positions = positionAttribute.array as Float32Array
-    const normalAttribute = geometry.attributes.normal as
-      | THREE.BufferAttribute
-      | undefined
-    const normals = normalAttribute?.array as Float32Array | null
-    const uvAttribute = geometry.attributes.uv as
-      | THREE.BufferAttribute
-      | undefined
-    const uvs = uvAttribute?.array as Float32Array | null
-
-    const newPositions: number[] = []
-    const newNormals: number[] | null = normals ? [] : null
-    const newUvs: number[] | null = uvs ? [] : null
-    const indexRemap = new Map<number, number>()
-
-    let removedCount = 0
-    let newIndex = 0
-
-    for (let i = 0; i < positions.length / 3; i++) {
-      if (usedVertices.has(i)) {
-        indexRemap.set(i, newIndex)
-        newPositions.push(
-          positions[i * 3],
-          positions[i * 3 + 1],
-          positions[i * 3 + 2],
-        )
-        if (newNormals && normals) {
-          newNormals.push(
-            normals[i * 3],
-            normals[i * 3 + 1],
-            normals[i * 3 + 2],
-          )
-        }
-        if (newUvs && uvs && i * 2 + 1 < uvs.length) {
-          newUvs.push(uvs[i * 2], uvs[i * 2 + 1])
-        }
-        newIndex++
-      } else {
-        removedCount++
-      }
-    }
-
-    const newIndices = Array.from(indices).map(
-      (index) => indexRemap.get(index)!,
+  public previewOperation(
+    object3D: THREE.Object3D,
+    operation: RepairOperationName,
+    options: MeshRepairOptions = {},
+  ): MeshRepairPreview[] {
+    return this.previewMeshes(object3D, operation, (source) =>
+      repairIndexedMesh(source, {
+        ...options,
+        skipOperations: repairOperations.filter((other) => other !== operation),
+        includeOperations: [operation],
+      }),
     )
-    this.updateMeshGeometry(mesh, newPositions, newNormals, newUvs, newIndices)
-
-    return removedCount
   }
 
-  public fixNonManifoldEdges(object3D: THREE.Object3D): number {
-    this.extractMeshes(object3D)
-    let totalFixed = 0
-
-    console.log(`Fixing non-manifold edges for ${this.meshes.length} meshes...`)
-
-    this.meshes.forEach((meshData: MeshData) => {
-      const fixed = this.fixNonManifoldEdgesForMesh(meshData.mesh)
-      totalFixed += fixed
-      console.log(`${meshData.name}: fixed ${fixed} non-manifold edges`)
-    })
-
-    console.log(
-      `Total non-manifold edges fixed across all meshes: ${totalFixed}`,
+  public previewSimplify(
+    object3D: THREE.Object3D,
+    options: SimplifyOptions = {},
+  ): MeshRepairPreview[] {
+    return this.previewMeshes(object3D, "simplify", (source) =>
+      simplifyIndexedMesh(source, options),
     )
-    return totalFixed
   }
 
-  private fixNonManifoldEdgesForMesh(mesh: THREE.Mesh): number {
-    const geometry = mesh.geometry as THREE.BufferGeometry
-    const indices = geometry.index?.array as Uint16Array | Uint32Array | null
-
-    if (!indices) {
-      console.log("Cannot fix non-manifold edges on non-indexed geometry")
-      return 0
-    }
-
-    const edges = new Map<string, number[]>()
-    const facesToRemove = new Set<number>()
-
-    for (let i = 0; i < indices.length; i += 3) {
-      const face = [indices[i], indices[i + 1], indices[i + 2]]
-
-      for (let j = 0; j < 3; j++) {
-        const v1 = face[j]
-        const v2 = face[(j + 1) % 3]
-        const edgeKey = v1 < v2 ? `${v1}-${v2}` : `${v2}-${v1}`
-
-        if (!edges.has(edgeKey)) {
-          edges.set(edgeKey, [])
-        }
-        edges.get(edgeKey)!.push(Math.floor(i / 3))
+  private previewMeshes(
+    object3D: THREE.Object3D,
+    operation: string,
+    run: (source: IndexedMesh) => IndexedMeshRepair,
+  ): MeshRepairPreview[] {
+    this.extractMeshes(object3D)
+    const previews: MeshRepairPreview[] = []
+
+    for (const { mesh, name } of this.meshes) {
+      const source = bufferGeometryToIndexedMesh(mesh.geometry)
+      const result = run(source)
+      if (!(result.repairs[operation] > 0)) continue
+
+      // Faces are compared in source vertex ids, keeping their winding
+      const faceKey = (a: number, b: number, c: number) => {
+        const rotation =
+          a <= b && a <= c ? [a, b, c] : b <= c ? [b, c, a] : [c, a, b]
+        return rotation.join(",")
       }
-    }
-
-    for (const [_, faceList] of edges) {
-      if (faceList.length > 2) {
-        for (let i = 2; i < faceList.length; i++) {
-          facesToRemove.add(faceList[i])
+      const sourceIndices = source.indices
+      const repairedIndices = Array.from(
+        result.mesh.indices,
+        (index) => result.vertexMap[index],
+      )
+      const faceKeys = (indices: ArrayLike<number>) => {
+        const keys: string[] = []
+        for (let i = 0; i + 2 < indices.length; i += 3) {
+          keys.push(faceKey(indices[i], indices[i + 1], indices[i + 2]))
         }
+        return keys
       }
-    }
-
-    const newIndices: number[] = []
-    for (let i = 0; i < indices.length; i += 3) {
-      const faceIndex = Math.floor(i / 3)
-      if (!facesToRemove.has(faceIndex)) {
-        newIndices.push(indices[i], indices[i + 1], indices[i + 2])
-      }
-    }
-
-    geometry.setIndex(newIndices)
-
-    return facesToRemove.size
-  }
-
-  private removeDegenerateFacesForMesh(mesh: THREE.Mesh): number {
-    const geometry = mesh.geometry as THREE.BufferGeometry
-    const indices = geometry.index?.array as Uint16Array | Uint32Array | null
-
-    if (!indices) {
-      console.log("Cannot remove degenerate faces from non-indexed geometry")
-      return 0
-    }
-
-    const positions = geometry.attributes.position.array as Float32Array
-    const newIndices: number[] = []
-    let removed = 0
-    const tolerance = 0.000001
-
-    for (let i = 0; i < indices.length; i += 3) {
-      const a = indices[i],
-        b = indices[i + 1],
-        c = indices[i + 2]
-
-      // Skip faces where any two indices are the same
-      if (a === b || b === c || c === a) {
-        removed++
-        continue
+      const beforeFaces = faceKeys(sourceIndices)
+      const afterFaces = faceKeys(repairedIndices)
+      const beforeSet = new Set(beforeFaces)
+      const afterSet = new Set(afterFaces)
+
+      const faceEdges = (indices: ArrayLike<number>, faces: number[]) => {
+        const segments = new Float32Array(faces.length * 18)
+        faces.forEach((face, i) => {
+          for (let j = 0; j < 3; j++) {
+            const from = indices[face * 3 + j] * 3
+            const to = indices[face * 3 + ((j + 1) % 3)] * 3
+            segments.set(
+              source.positions.subarray(from, from + 3),
+              i * 18 + j * 6,
+            )
+            segments.set(
+              source.positions.subarray(to, to + 3),
+              i * 18 + j * 6 + 3,
+            )
+          }
+        })
+        return segments
       }
 
-      // Check for zero-area faces (collinear vertices)
-      const v1 = new THREE.Vector3(
-        positions[a * 3],
-        positions[a * 3 + 1],
-        positions[a * 3 + 2],
-      )
-      const v2 = new THREE.Vector3(
-        positions[b * 3],
-        positions[b * 3 + 1],
-        positions[b * 3 + 2],
-      )
-      const v3 = new THREE.Vector3(
-        positions[c * 3],
-        positions[c * 3 + 1],
-        positions[c * 3 + 2],
-      )
-
-      const edge1 = v2.clone().sub(v1)
-      const edge2 = v3.clone().sub(v1)
-      const cross = edge1.cross(edge2)
-
-      if (cross.length() < tolerance) {
-        removed++
-        continue
+      const kept = new Set(result.vertexMap)
+      const removedVertices: number[] = []
+      const vertexCount = source.positions.length / 3
+      for (let i = 0; i < vertexCount; i++) {
+        if (!kept.has(i)) {
+          removedVertices.push(...source.positions.subarray(i * 3, i * 3 + 3))
+        }
       }
 
-      newIndices.push(a, b, c)
+      const geometry = indexedMeshToBufferGeometry(mesh.geometry, result)
+      previews.push({
+        mesh,
+        name,
+        geometry,
+        repairs: { [operation]: result.repairs[operation] },
+        before: this.analyzeSingleMesh(mesh.geometry),
+        after: this.analyzeSingleMesh(geometry),
+        removedVertices: Float32Array.from(removedVertices),
+        removedEdges: faceEdges(
+          sourceIndices,
+          beforeFaces.flatMap((key, face) => (afterSet.has(key) ? [] : [face])),
+        ),
+        addedEdges: faceEdges(
+          repairedIndices,
+          afterFaces.flatMap((key, face) => (beforeSet.has(key) ? [] : [face])),
+        ),
+      })
     }
 
-    geometry.setIndex(newIndices)
-    return removed
-  }
-
-  public removeDegenerateFaces(object3D: THREE.Object3D): number {
-    this.extractMeshes(object3D)
-    let totalRemoved = 0
-
-    console.log(`Removing degenerate faces for ${this.meshes.length} meshes...`)
-
-    this.meshes.forEach((meshData) => {
-      const removed = this.removeDegenerateFacesForMesh(meshData.mesh)
-      totalRemoved += removed
-      if (removed > 0) {
-        console.log(`${meshData.name}: removed ${removed} degenerate faces`)
-      }
-    })
-
-    console.log(`Total degenerate faces removed: ${totalRemoved}`)
-    return totalRemoved
+    return previews
   }
 
-  public recalculateNormals(object3D: THREE.Object3D): number {
-    this.extractMeshes(object3D)
-
-    console.log(`Recalculating normals for ${this.meshes.length} meshes...`)
+  private repairMesh(
+    mesh: THREE.Mesh,
+    options: MeshRepairOptions,
+  ): MeshRepairResults {
+    const source = bufferGeometryToIndexedMesh(mesh.geometry)
+    const result = repairIndexedMesh(source, options)
 
-    this.meshes.forEach((meshData: MeshData) => {
-      meshData.mesh.geometry.computeVertexNormals()
-      console.log(`${meshData.name}: normals recalculated`)
-    })
+    const geometry = indexedMeshToBufferGeometry(mesh.geometry, result)
+    mesh.geometry.dispose()
+    mesh.geometry = geometry
 
-    console.log("Normals recalculated for all meshes")
-    return this.meshes.length
+    return { repairs: result.repairs }
   }
 
   public async repairGeometry(
@@ -691,65 +406,45 @@ export class GeometryRepairer {
   ): Promise<RepairResults> {
     const {
       mergeTolerance = 0.000001,
-      onProgress = null,
+      maxHoleEdges,
+      onProgress,
       skipOperations = [],
+      includeOperations = [],
       ensureManifold = false,
     } = options
 
     console.log("Starting complete geometry repair process...")
 
     this.extractMeshes(object3D)
+    const results = emptyRepairs()
 
-    let operations: RepairOperation[] = [
-      {
-        name: "mergeVertices",
-        fn: () => this.mergeVertices(object3D, mergeTolerance),
-      },
-      {
-        name: "removeLooseVertices",
-        fn: () => this.removeLooseVertices(object3D),
-      },
-      {
-        name: "fixNonManifoldEdges",
-        fn: () => this.fixNonManifoldEdges(object3D),
-      },
-      {
-        name: "removeDegenerateFaces",
-        fn: () => this.removeDegenerateFaces(object3D),
-      },
-      {
-        name: "recalculateNormals",
-        fn: () => this.recalculateNormals(object3D),
-      },
-    ]
+    this.meshes.forEach((meshData: MeshData, index: number) => {
+      const { repairs } = this.repairMesh(meshData.mesh, {
+        mergeTolerance,
+        maxHoleEdges,
+        skipOperations,
+        includeOperations,
+        onProgress: (percent, operation) =>
+          onProgress?.(
+            ((index + percent / 100) / this.meshes.length) * 100,
+            operation,
+          ),
+      })
+      addRepairs(results, repairs)
+    })
 
-    if (ensureManifold) {
-      operations = [
-        ...operations,
-        {
-          name: "validateAndReRepair",
-          fn: () => this.performIterativeRepair(object3D, mergeTolerance),
-        },
-      ]
+    const operations = selectRepairOperations(options)
+    for (const operation of repairOperations) {
+      if (!operations.includes(operation)) delete results[operation]
     }
 
-    const results: Record<string, number> = {}
-
-    for (let i = 0; i < operations.length; i++) {
-      const operation = operations[i]
-
-      if (skipOperations.includes(operation.name)) {
-        console.log(`Skipping ${operation.name}`)
-        continue
-      }
-
-      console.log(`Running ${operation.name}...`)
-      const result = await operation.fn()
-      results[operation.name] = typeof result === "number" ? result : 0
-
-      if (onProgress) {
-        onProgress(((i + 1) / operations.length) * 100, operation.name)
-      }
+    if (ensureManifold) {
+      results.validateAndReRepair = this.performIterativeRepair(object3D, {
+        mergeTolerance,
+        maxHoleEdges,
+        skipOperations: [...skipOperations, "recalculateNormals"],
+        includeOperations,
+      })
     }
 
     console.log("Complete geometry repair finished!")
@@ -764,7 +459,7 @@ export class GeometryRepairer {
 
   private performIterativeRepair(
     object3D: THREE.Object3D,
-    tolerance: number,
+    options: MeshRepairOptions,
   ): number {
     let totalIterations = 0
     const maxIterations = 3
@@ -782,48 +477,15 @@ export class GeometryRepairer {
       }
 
       console.log(`Iteration ${iteration + 1}: fixing remaining issues...`)
-      this.removeDegenerateFaces(object3D)
-      this.mergeVertices(object3D, tolerance)
-      this.fixNonManifoldEdges(object3D)
+      for (const meshData of this.meshes) {
+        this.repairMesh(meshData.mesh, options)
+      }
       totalIterations++
     }
 
     return totalIterations
   }
 
-  private updateMeshGeometry(
-    mesh: THREE.Mesh,
-    positions: number[],
-    normals: number[] | null,
-    uvs: number[] | null,
-    indices: number[] | null,
-  ): void {
-    const newGeometry = new THREE.BufferGeometry()
-
-    newGeometry.setAttribute(
-      "position",
-      new THREE.Float32BufferAttribute(positions, 3),
-    )
-
-    if (normals && normals.length > 0) {
-      newGeometry.setAttribute(
-        "normal",
-        new THREE.Float32BufferAttribute(normals, 3),
-      )
-    }
-
-    if (uvs && uvs.length > 0) {
-      newGeometry.setAttribute("uv", new THREE.Float32BufferAttribute(uvs, 2))
-    }
-
-    if (indices && indices.length > 0) {
-      newGeometry.setIndex(indices)
-    }
-
-    mesh.geometry.dispose()
-    mesh.geometry = newGeometry
-  }
-
   public removeMeshesWithIssues(
     object3D: THREE.Object3D,
     options: {
@@ -895,3 +557,184 @@ export class GeometryRepairer {
     console.log("Reset all meshes to original geometries")
   }
 }
+
+function readAttribute(
+  attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+): { array: AttributeArray; normalized: boolean } {
+  if (
+    attribute instanceof THREE.BufferAttribute &&
+    !(attribute.array instanceof Float64Array)
+  ) {
+    return { array: attribute.array, normalized: attribute.normalized }
+  }
+  return { array: readComponents(attribute), normalized: false }
+}
+
+function readFloats(
+  attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+): Float32Array {
+  const { array, normalized } = readAttribute(attribute)
+  return array instanceof Float32Array && !normalized
+    ? array
+    : readComponents(attribute)
+}
+
+function readComponents(
+  attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+): Float32Array {
+  // getComponent resolves interleaving and normalization
+  const array = new Float32Array(attribute.count * attribute.itemSize)
+  for (let i = 0; i < attribute.count; i++) {
+    for (let j = 0; j < attribute.itemSize; j++) {
+      array[i * attribute.itemSize + j] = attribute.getComponent(i, j)
+    }
+  }
+  return array
+}
+
+export function sumAnalyses(analyses: GeometryAnalysis[]): TotalStats {
+  const totalStats: TotalStats = {
+    meshes: analyses.length,
+    vertices: 0,
+    faces: 0,
+    duplicateVertices: 0,
+    looseVertices: 0,
+    nonManifoldEdges: 0,
+    nonManifoldVertices: 0,
+    degenerateFaces: 0,
+    boundaryEdges: 0,
+  }
+
+  for (const analysis of analyses) {
+    totalStats.vertices += analysis.vertices
+    totalStats.faces += analysis.faces
+    totalStats.duplicateVertices += analysis.duplicateVertices
+    totalStats.looseVertices += analysis.looseVertices
+    totalStats.nonManifoldEdges += analysis.nonManifoldEdges
+    totalStats.nonManifoldVertices += analysis.nonManifoldVertices || 0
+    totalStats.degenerateFaces += analysis.degenerateFaces || 0
+    totalStats.boundaryEdges += analysis.boundaryEdges || 0
+    if (analysis.selfIntersections !== undefined) {
+      totalStats.selfIntersections =
+        (totalStats.selfIntersections || 0) + analysis.selfIntersections
+    }
+  }
+
+  totalStats.totalIssues =
+    totalStats.duplicateVertices +
+    totalStats.looseVertices +
+    totalStats.nonManifoldEdges +
+    totalStats.nonManifoldVertices +
+    totalStats.degenerateFaces +
+    (totalStats.selfIntersections || 0)
+
+  return totalStats
+}
+
+export function bufferGeometryToIndexedMesh(
+  geometry: THREE.BufferGeometry,
+): IndexedMesh {
+  const position = geometry.getAttribute("position")
+  const normal = geometry.getAttribute("normal")
+
+  const attributes: MeshAttribute[] = []
+  for (const [name, attribute] of Object.entries(geometry.attributes)) {
+    if (name === "position" || name === "normal") continue
+    attributes.push({
+      name,
+      itemSize: attribute.itemSize,
+      ...readAttribute(attribute),
+    })
+  }
+  for (const [name, targets] of Object.entries(geometry.morphAttributes)) {
+    targets.forEach((attribute, target) => {
+      attributes.push({
+        name,
+        target,
+        itemSize: attribute.itemSize,
+        ...readAttribute(attribute),
+      })
+    })
+  }
+
+  const indices = geometry.index
+    ? Uint32Array.from(geometry.index.array)
+    : Uint32Array.from({ length: position.count }, (_, i) => i)
+
+  return {
+    positions: readFloats(position),
+    normals: normal ? readFloats(normal) : null,
+    indices,
+    attributes,
+    // Corner ids remember the original index position so draw groups survive
+    corners:
+      geometry.groups.length > 0
+        ? Uint32Array.from(indices, (_, i) => i)
+        : null,
+  }
+}
+
+export function indexedMeshToBufferGeometry(
+  source: THREE.BufferGeometry,
+  { mesh }: IndexedMeshRepair,
+): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry()
+  geometry.name = source.name
+  geometry.userData = source.userData
+  geometry.morphTargetsRelative = source.morphTargetsRelative
+
+  geometry.setAttribute(
+    "position",
+    new THREE.BufferAttribute(mesh.positions, 3),
+  )
+  if (mesh.normals) {
+    geometry.setAttribute("normal", new THREE.BufferAttribute(mesh.normals, 3))
+  }
+
+  for (const attribute of mesh.attributes) {
+    const bufferAttribute = new THREE.BufferAttribute(
+      attribute.array,
+      attribute.itemSize,
+      attribute.normalized,
+    )
+    if (attribute.target === undefined) {
+      geometry.setAttribute(attribute.name, bufferAttribute)
+    } else {
+      const morphAttributes = geometry.morphAttributes as Record<
+        string,
+        THREE.BufferAttribute[]
+      >
+      morphAttributes[attribute.name] ??= []
+      morphAttributes[attribute.name][attribute.target] = bufferAttribute
+    }
+  }
+
+  const vertexCount = mesh.positions.length / 3
+  geometry.setIndex(
+    new THREE.BufferAttribute(
+      vertexCount > 65535
+        ? Uint32Array.from(mesh.indices)
+        : Uint16Array.from(mesh.indices),
+      1,
+    ),
+  )
+
+  if (mesh.corners) {
+    for (let i = 0; i < mesh.corners.length; i += 3) {
+      const corner = mesh.corners[i]
+      const group = source.groups.find(
+        ({ start, count }) => corner >= start && corner < start + count,
+      )
+      const materialIndex = group?.materialIndex ?? 0
+      const last = geometry.groups[geometry.groups.length - 1]
+
+      if (last && last.materialIndex === materialIndex) {
+        last.count += 3
+      } else {
+        geometry.addGroup(i, 3, materialIndex)
+      }
+    }
+  }
+
+  return geometry
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict"
+import { test } from "node:test"
+
+import { type IndexedMesh, repairIndexedMesh } from "./geometry_fix_core"
+
+function indexedMesh(positions: number[], indices: number[]): IndexedMesh {
+  return {
+    positions: Float32Array.from(positions),
+    normals: null,
+    indices: Uint32Array.from(indices),
+    attributes: [],
+    corners: null,
+  }
+}
+
+function fillHoles(mesh: IndexedMesh) {
+  return repairIndexedMesh(mesh, {
+    skipOperations: ["recalculateNormals"],
+    includeOperations: ["fillHoles"],
+  })
+}
+
+test("fills the open side of a box", () => {
+  const box = indexedMesh(
+    [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0, 0, 0, 1, 1, 0, 1, 1, 1, 1, 0, 1, 1],
+    [
+      // Bottom, front, right, back and left; the top at z = 1 is missing
+      0, 2, 1, 0, 3, 2, 0, 1, 5, 0, 5, 4, 1, 2, 6, 1, 6, 5, 2, 3, 7, 2, 7, 6, 3,
+      0, 4, 3, 4, 7,
+    ],
+  )
+
+  const { repairs, mesh } = fillHoles(box)
+
+  assert.equal(repairs.fillHoles, 1)
+  assert.equal(mesh.indices.length, 12 * 3)
+})
+
+test("leaves a single open quad as it is", () => {
+  const quad = indexedMesh(
+    [0, 0, 0, 1, 0, 0, 1, 1, 0, 0, 1, 0],
+    [0, 1, 2, 0, 2, 3],
+  )
+
+  const { repairs, mesh } = fillHoles(quad)
+
+  assert.equal(repairs.fillHoles, 0)
+  assert.deepEqual(Array.from(mesh.indices), [0, 1, 2, 0, 2, 3])
+})
+
+test("leaves the rim of a flat plane open", () => {
+  const positions: number[] = []
+  const indices: number[] = []
+  for (let y = 0; y <= 3; y++) {
+    for (let x = 0; x <= 3; x++) positions.push(x, y, 0)
+  }
+  for (let y = 0; y < 3; y++) {
+    for (let x = 0; x < 3; x++) {
+      const i = y * 4 + x
+      indices.push(i, i + 1, i + 5, i, i + 5, i + 4)
+    }
+  }
+
+  const { repairs, mesh } = fillHoles(indexedMesh(positions, indices))
+
+  assert.equal(repairs.fillHoles, 0)
+  assert.equal(mesh.indices.length, indices.length)
+})
@@ -0,0 +1,956 @@
+export type AttributeArray =
+  | Int8Array
+  | Uint8Array
+  | Uint8ClampedArray
+  | Int16Array
+  | Uint16Array
+  | Int32Array
+  | Uint32Array
+  | Float32Array
+
+export interface MeshAttribute {
+  name: string
+  array: AttributeArray
+  itemSize: number
+  normalized?: boolean
+  // Morph target the attribute belongs to, if any
+  target?: number
+}
+
+// Triangle mesh shared by every repair path. `corners` holds one opaque id per
+// index that travels with its triangle, so adapters can recover per-corner data
+export interface IndexedMesh {
+  positions: Float32Array
+  normals: Float32Array | null
+  indices: Uint32Array
+  attributes: MeshAttribute[]
+  corners: Uint32Array | null
+}
+
+export interface MeshRepairOptions {
+  mergeTolerance?: number
+  // Boundary loops with more edges than this are treated as intentional openings
+  maxHoleEdges?: number
+  skipOperations?: string[]
+  // Optional operations to run as well, see optionalRepairOperations
+  includeOperations?: string[]
+  onProgress?: (percent: number, operation: string) => void
+}
+
+export interface MeshRepairResults {
+  repairs: Record<string, number>
+}
+
+export interface IndexedMeshRepair extends MeshRepairResults {
+  mesh: IndexedMesh
+  // Source vertex of every vertex in the repaired mesh
+  vertexMap: Uint32Array
+  // Faces whose winding orientFaces reversed, for adapters with normals of
+  // their own to turn
+  flippedFaces?: Uint32Array
+}
+
+export const repairOperations = [
+  "mergeVertices",
+  "removeDegenerateFaces",
+  "fixNonManifoldEdges",
+  "fillHoles",
+  "orientFaces",
+  "removeLooseVertices",
+  "recalculateNormals",
+] as const
+
+export type RepairOperationName = (typeof repairOperations)[number]
+
+// Operations that add or turn faces rather than clean up the mesh, so they
+// only run when named in includeOperations
+export const optionalRepairOperations: readonly RepairOperationName[] = [
+  "fillHoles",
+  "orientFaces",
+]
+
+// The operations a repair with the given options runs, in order
+export function selectRepairOperations(
+  options: MeshRepairOptions,
+): RepairOperationName[] {
+  const { skipOperations = [], includeOperations = [] } = options
+  return repairOperations.filter(
+    (name) =>
+      !skipOperations.includes(name) &&
+      (!optionalRepairOperations.includes(name) ||
+        includeOperations.includes(name)),
+  )
+}
+
+export function emptyRepairs(): Record<string, number> {
+  return Object.fromEntries(repairOperations.map((name) => [name, 0]))
+}
+
+export function addRepairs(
+  target: Record<string, number>,
+  source: Record<string, number>,
+): Record<string, number> {
+  for (const [name, count] of Object.entries(source)) {
+    target[name] = (target[name] ?? 0) + count
+  }
+  return target
+}
+
+export function repairIndexedMesh(
+  mesh: IndexedMesh,
+  options: MeshRepairOptions = {},
+): IndexedMeshRepair {
+  const { mergeTolerance = 0.000001, maxHoleEdges = 32, onProgress } = options
+
+  const vertexCount = mesh.positions.length / 3
+  const triangleCount = Math.floor(mesh.indices.length / 3)
+  let indices = Array.from(mesh.indices.subarray(0, triangleCount * 3))
+  let corners = mesh.corners
+    ? Array.from(mesh.corners.subarray(0, triangleCount * 3))
+    : null
+
+  const repairs = emptyRepairs()
+  const operations = selectRepairOperations(options)
+  const runs = (name: RepairOperationName) => operations.includes(name)
+  let completed = 0
+  const progress = (name: RepairOperationName) => {
+    completed++
+    onProgress?.((completed / operations.length) * 100, name)
+  }
+
+  const keepTriangles = (
+    keep: (a: number, b: number, c: number) => boolean,
+  ) => {
+    const keptIndices: number[] = []
+    const keptCorners: number[] | null = corners ? [] : null
+    let removed = 0
+
+    for (let i = 0; i < indices.length; i += 3) {
+      if (!keep(indices[i], indices[i + 1], indices[i + 2])) {
+        removed++
+        continue
+      }
+      keptIndices.push(indices[i], indices[i + 1], indices[i + 2])
+      if (keptCorners && corners) {
+        keptCorners.push(corners[i], corners[i + 1], corners[i + 2])
+      }
+    }
+
+    indices = keptIndices
+    corners = keptCorners
+    return removed
+  }
+
+  // Vertices only merge when every attribute matches, so UV and normal seams survive
+  let representative = Array.from({ length: vertexCount }, (_, i) => i)
+  if (runs("mergeVertices")) {
+    const streams: [ArrayLike<number>, number][] = [[mesh.positions, 3]]
+    if (mesh.normals) streams.push([mesh.normals, 3])
+    for (const attribute of mesh.attributes) {
+      streams.push([attribute.array, attribute.itemSize])
+    }
+
+    representative = weldVertices(vertexCount, streams, mergeTolerance)
+    repairs.mergeVertices = representative.filter((r, i) => r !== i).length
+    indices = indices.map((index) => representative[index])
+    progress("mergeVertices")
+  }
+
+  if (runs("removeDegenerateFaces")) {
+    repairs.removeDegenerateFaces = keepTriangles(
+      (a, b, c) =>
+        a !== b &&
+        b !== c &&
+        c !== a &&
+        !isZeroAreaFace(mesh.positions, a, b, c),
+    )
+    progress("removeDegenerateFaces")
+  }
+
+  // Edges are matched by position so that attribute seams cannot hide them
+  const positionIds = weldVertices(
+    vertexCount,
+    [[mesh.positions, 3]],
+    mergeTolerance,
+  )
+
+  if (runs("fixNonManifoldEdges")) {
+    const edgeFaces = new Map<number, number>()
+
+    repairs.fixNonManifoldEdges = keepTriangles((a, b, c) => {
+      const edges = [
+        getEdgeKey(positionIds[a], positionIds[b]),
+        getEdgeKey(positionIds[b], positionIds[c]),
+        getEdgeKey(positionIds[c], positionIds[a]),
+      ]
+      if (edges.some((edge) => (edgeFaces.get(edge) ?? 0) >= 2)) return false
+
+      for (const edge of edges) {
+        edgeFaces.set(edge, (edgeFaces.get(edge) ?? 0) + 1)
+      }
+      return true
+    })
+    progress("fixNonManifoldEdges")
+  }
+
+  if (runs("fillHoles")) {
+    const patch = fillHoles(
+      mesh.positions,
+      indices,
+      corners,
+      positionIds,
+      maxHoleEdges,
+    )
+    indices.push(...patch.indices)
+    corners?.push(...patch.corners)
+    repairs.fillHoles = patch.holes
+    progress("fillHoles")
+  }
+
+  let flippedFaces: number[] = []
+  if (runs("orientFaces")) {
+    flippedFaces = orientFaces(mesh.positions, indices, corners, positionIds)
+    repairs.orientFaces = flippedFaces.length
+    progress("orientFaces")
+  }
+
+  const used = new Set(indices)
+  const removeLoose = runs("removeLooseVertices")
+  const vertexMap: number[] = []
+  const remap = new Map<number, number>()
+
+  // Merged vertices are always dropped; loose ones only when that repair runs
+  for (let i = 0; i < vertexCount; i++) {
+    if (representative[i] !== i) continue
+    if (removeLoose && !used.has(i)) {
+      repairs.removeLooseVertices++
+      continue
+    }
+    remap.set(i, vertexMap.length)
+    vertexMap.push(i)
+  }
+  if (removeLoose) progress("removeLooseVertices")
+
+  const repaired: IndexedMesh = {
+    positions: compactArray(mesh.positions, 3, vertexMap),
+    normals: mesh.normals ? compactArray(mesh.normals, 3, vertexMap) : null,
+    indices: Uint32Array.from(indices, (index) => remap.get(index) ?? 0),
+    attributes: mesh.attributes.map((attribute) => ({
+      ...attribute,
+      array: compactArray(attribute.array, attribute.itemSize, vertexMap),
+    })),
+    corners: corners ? Uint32Array.from(corners) : null,
+  }
+
+  if (runs("recalculateNormals")) {
+    repaired.normals = computeVertexNormals(
+      repaired.positions,
+      repaired.indices,
+    )
+    repairs.recalculateNormals = 1
+    progress("recalculateNormals")
+  } else if (repaired.normals && flippedFaces.length > 0) {
+    alignVertexNormals(repaired, flippedFaces)
+  }
+
+  return {
+    mesh: repaired,
+    vertexMap: Uint32Array.from(vertexMap),
+    flippedFaces: Uint32Array.from(flippedFaces),
+    repairs,
+  }
+}
+
+interface BoundaryStep {
+  to: number
+  vertex: number
+  corner: number
+}
+
+function fillHoles(
+  positions: Float32Array,
+  indices: number[],
+  corners: number[] | null,
+  positionIds: number[],
+  maxHoleEdges: number,
+): { indices: number[]; corners: number[]; holes: number } {
+  const edgeUse = new Map<number, number>()
+  for (let i = 0; i < indices.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const edge = getEdgeKey(
+        positionIds[indices[i + j]],
+        positionIds[indices[i + ((j + 1) % 3)]],
+      )
+      edgeUse.set(edge, (edgeUse.get(edge) ?? 0) + 1)
+    }
+  }
+
+  // A patch runs along each boundary edge in the opposite direction, which
+  // keeps its winding consistent with the surrounding faces
+  const next = new Map<number, BoundaryStep>()
+  const ambiguous = new Set<number>()
+  for (let i = 0; i < indices.length; i += 3) {
+    for (let j = 0; j < 3; j++) {
+      const a = indices[i + j]
+      const k = i + ((j + 1) % 3)
+      const b = indices[k]
+      if (edgeUse.get(getEdgeKey(positionIds[a], positionIds[b])) !== 1) {
+        continue
+      }
+
+      const from = positionIds[b]
+      if (next.has(from)) ambiguous.add(from)
+      next.set(from, {
+        to: positionIds[a],
+        vertex: b,
+        corner: corners?.[k] ?? 0,
+      })
+    }
+  }
+
+  // Components and faces by position tell holes apart from the rim of an
+  // open sheet, which must stay open
+  const component = positionIds.map((_, i) => i)
+  const find = (i: number): number => {
+    while (component[i] !== i) {
+      component[i] = component[component[i]]
+      i = component[i]
+    }
+    return i
+  }
+  const faceKey = (ids: number[]) => ids.sort((x, y) => x - y).join(",")
+  const faces = new Set<string>()
+  for (let i = 0; i < indices.length; i += 3) {
+    const [a, b, c] = [0, 1, 2].map((j) => positionIds[indices[i + j]])
+    faces.add(faceKey([a, b, c]))
+    component[find(b)] = find(a)
+    component[find(c)] = find(a)
+  }
+
+  const loops: BoundaryStep[][] = []
+  const visited = new Set<number>()
+
+  for (const start of next.keys()) {
+    const loop: BoundaryStep[] = []
+    let current = start
+    let closed = false
+
+    while (!visited.has(current)) {
+      visited.add(current)
+      const step = next.get(current)
+      if (!step || ambiguous.has(current)) break
+
+      loop.push(step)
+      current = step.to
+      if (current === start) {
+        closed = true
+        break
+      }
+    }
+
+    if (closed && loop.length >= 3) loops.push(loop)
+  }
+
+  const componentLoops = new Map<number, number>()
+  for (const loop of loops) {
+    const root = find(loop[0].to)
+    componentLoops.set(root, (componentLoops.get(root) ?? 0) + 1)
+  }
+
+  const patch = { indices: [] as number[], corners: [] as number[], holes: 0 }
+
+  for (const loop of loops) {
+    if (loop.length > maxHoleEdges) continue
+
+    const vertices = loop.map((step) => step.vertex)
+    const root = find(loop[0].to)
+    const inComponent = (id: number) => find(id) === root
+    if (
+      componentLoops.get(root) === 1 &&
+      isFlatComponent(positions, indices, positionIds, vertices, inComponent)
+    ) {
+      continue
+    }
+
+    // A patch that repeats existing faces would only make them double-sided
+    const triangles = triangulateLoop(positions, vertices)
+    const repeatsFace = triangles.some((triangle) =>
+      faces.has(faceKey(triangle.map((i) => positionIds[vertices[i]]))),
+    )
+    if (repeatsFace) continue
+
+    for (const triangle of triangles) {
+      for (const index of triangle) {
+        patch.indices.push(loop[index].vertex)
+        patch.corners.push(loop[index].corner)
+      }
+    }
+    patch.holes++
+  }
+
+  return patch
+}
+
+function orientFaces(
+  positions: Float32Array,
+  indices: number[],
+  corners: number[] | null,
+  positionIds: number[],
+): number[] {
+  const triangleCount = indices.length / 3
+  const edgeFaces = new Map<number, number[]>()
+  for (let face = 0; face < triangleCount; face++) {
+    for (let j = 0; j < 3; j++) {
+      const edge = getEdgeKey(
+        positionIds[indices[face * 3 + j]],
+        positionIds[indices[face * 3 + ((j + 1) % 3)]],
+      )
+      const faces = edgeFaces.get(edge)
+      if (faces) faces.push(face)
+      else edgeFaces.set(edge, [face])
+    }
+  }
+
+  // Whether a face runs from `a` to `b` (position ids) once its flip is applied
+  const flipped = new Array<boolean>(triangleCount).fill(false)
+  const runsForward = (face: number, a: number, b: number) => {
+    for (let j = 0; j < 3; j++) {
+      const from = positionIds[indices[face * 3 + j]]
+      const to = positionIds[indices[face * 3 + ((j + 1) % 3)]]
+      if (from === a && to === b) return !flipped[face]
+      if (from === b && to === a) return flipped[face]
+    }
+    return false
+  }
+
+  const component = new Array<number>(triangleCount).fill(-1)
+  const components: number[][] = []
+
+  for (let seed = 0; seed < triangleCount; seed++) {
+    if (component[seed] !== -1) continue
+
+    const faces = [seed]
+    component[seed] = components.length
+
+    // Neighbours across a manifold edge must traverse it in the opposite direction
+    for (let i = 0; i < faces.length; i++) {
+      const face = faces[i]
+      for (let j = 0; j < 3; j++) {
+        let a = positionIds[indices[face * 3 + j]]
+        let b = positionIds[indices[face * 3 + ((j + 1) % 3)]]
+        if (flipped[face]) [a, b] = [b, a]
+
+        const shared = edgeFaces.get(getEdgeKey(a, b))
+        if (shared?.length !== 2) continue
+
+        const neighbour = shared[0] === face ? shared[1] : shared[0]
+        if (component[neighbour] !== -1) continue
+
+        component[neighbour] = components.length
+        flipped[neighbour] = runsForward(neighbour, a, b)
+        faces.push(neighbour)
+      }
+    }
+    components.push(faces)
+  }
+
+  // A component with negative signed volume has its faces pointing inward
+  for (const faces of components) {
+    let cx = 0,
+      cy = 0,
+      cz = 0
+    for (const face of faces) {
+      for (let j = 0; j < 3; j++) {
+        const p = indices[face * 3 + j] * 3
+        cx += positions[p]
+        cy += positions[p + 1]
+        cz += positions[p + 2]
+      }
+    }
+    const n = faces.length * 3
+    cx /= n
+    cy /= n
+    cz /= n
+
+    let volume = 0
+    for (const face of faces) {
+      let [a, b, c] = [0, 1, 2].map((j) => indices[face * 3 + j] * 3)
+      if (flipped[face]) [b, c] = [c, b]
+
+      const ax = positions[a] - cx,
+        ay = positions[a + 1] - cy,
+        az = positions[a + 2] - cz
+      const bx = positions[b] - cx,
+        by = positions[b + 1] - cy,
+        bz = positions[b + 2] - cz
+      const qx = positions[c] - cx,
+        qy = positions[c + 1] - cy,
+        qz = positions[c + 2] - cz
+      volume +=
+        ax * (by * qz - bz * qy) +
+        ay * (bz * qx - bx * qz) +
+        az * (bx * qy - by * qx)
+    }
+
+    if (volume < 0) {
+      for (const face of faces) flipped[face] = !flipped[face]
+    }
+  }
+
+  const flippedFaces: number[] = []
+  for (let face = 0; face < triangleCount; face++) {
+    if (!flipped[face]) continue
+
+    const i = face * 3
+    ;[indices[i + 1], indices[i + 2]] = [indices[i + 2], indices[i + 1]]
+    if (corners) {
+      ;[corners[i + 1], corners[i + 2]] = [corners[i + 2], corners[i + 1]]
+    }
+    flippedFaces.push(face)
+  }
+  return flippedFaces
+}
+
+// Turns the normals of the vertices of reoriented faces that point against
+// their new winding. Normals that already agree with it, such as correct
+// normals on faces that were only wound the wrong way, are left as they are
+function alignVertexNormals(mesh: IndexedMesh, faces: number[]): void {
+  const { normals, indices } = mesh
+  if (!normals) return
+
+  const windingNormals = computeVertexNormals(mesh.positions, indices)
+  const vertices = new Set<number>()
+  for (const face of faces) {
+    vertices.add(indices[face * 3])
+    vertices.add(indices[face * 3 + 1])
+    vertices.add(indices[face * 3 + 2])
+  }
+
+  for (const vertex of vertices) {
+    const i = vertex * 3
+    const dot =
+      normals[i] * windingNormals[i] +
+      normals[i + 1] * windingNormals[i + 1] +
+      normals[i + 2] * windingNormals[i + 2]
+    if (dot < 0) {
+      normals[i] = -normals[i]
+      normals[i + 1] = -normals[i + 1]
+      normals[i + 2] = -normals[i + 2]
+    }
+  }
+}
+
+// Whether every face of a component lies in the plane of its boundary loop,
+// as for a flat sheet that a patch would only cover a second time
+function isFlatComponent(
+  positions: Float32Array,
+  indices: number[],
+  positionIds: number[],
+  loop: number[],
+  inComponent: (positionId: number) => boolean,
+): boolean {
+  const [nx, ny, nz] = loopNormal(positions, loop)
+  const length = Math.hypot(nx, ny, nz)
+  if (length === 0) return false
+
+  let cx = 0,
+    cy = 0,
+    cz = 0
+  for (const vertex of loop) {
+    cx += positions[vertex * 3] / loop.length
+    cy += positions[vertex * 3 + 1] / loop.length
+    cz += positions[vertex * 3 + 2] / loop.length
+  }
+  const distanceTo = (vertex: number) => {
+    const p = vertex * 3
+    return [positions[p] - cx, positions[p + 1] - cy, positions[p + 2] - cz]
+  }
+  const tolerance =
+    1e-5 * Math.max(...loop.map((vertex) => Math.hypot(...distanceTo(vertex))))
+
+  return indices.every((vertex) => {
+    if (!inComponent(positionIds[vertex])) return true
+    const [dx, dy, dz] = distanceTo(vertex)
+    return Math.abs(dx * nx + dy * ny + dz * nz) / length <= tolerance
+  })
+}
+
+// Area weighted normal of a polygon, found with Newell's method
+function loopNormal(
+  positions: Float32Array,
+  loop: number[],
+): [number, number, number] {
+  let nx = 0,
+    ny = 0,
+    nz = 0
+  for (let i = 0; i < loop.length; i++) {
+    const a = loop[i] * 3
+    const b = loop[(i + 1) % loop.length] * 3
+    nx +=
+      (positions[a + 1] - positions[b + 1]) *
+      (positions[a + 2] + positions[b + 2])
+    ny += (positions[a + 2] - positions[b + 2]) * (positions[a] + positions[b])
+    nz += (positions[a] - positions[b]) * (positions[a + 1] + positions[b + 1])
+  }
+  return [nx, ny, nz]
+}
+
+function triangulateLoop(
+  positions: Float32Array,
+  loop: number[],
+): [number, number, number][] {
+  // Ear clipping in the plane of the loop
+  const [nx, ny, nz] = loopNormal(positions, loop)
+
+  const [u, v] =
+    Math.abs(nx) >= Math.abs(ny) && Math.abs(nx) >= Math.abs(nz)
+      ? [1, 2]
+      : Math.abs(ny) >= Math.abs(nz)
+        ? [2, 0]
+        : [0, 1]
+  const sign = Math.sign([nx, ny, nz][3 - u - v]) || 1
+  const point = (i: number) => [
+    positions[loop[i] * 3 + u],
+    positions[loop[i] * 3 + v],
+  ]
+  const cross = (a: number[], b: number[], c: number[]) =>
+    ((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0])) * sign
+
+  const remaining = loop.map((_, i) => i)
+  const triangles: [number, number, number][] = []
+
+  while (remaining.length > 3) {
+    let clipped = false
+
+    for (let i = 0; i < remaining.length; i++) {
+      const prev = remaining[(i + remaining.length - 1) % remaining.length]
+      const current = remaining[i]
+      const next = remaining[(i + 1) % remaining.length]
+      const [a, b, c] = [point(prev), point(current), point(next)]
+      if (cross(a, b, c) <= 0) continue
+
+      const blocked = remaining.some((other) => {
+        if (other === prev || other === current || other === next) return false
+        const p = point(other)
+        return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0
+      })
+      if (blocked) continue
+
+      triangles.push([prev, current, next])
+      remaining.splice(i, 1)
+      clipped = true
+      break
+    }
+
+    // Self-overlapping loops have no ear left; finish them as a fan
+    if (!clipped) {
+      for (let i = 1; i < remaining.length - 1; i++) {
+        triangles.push([remaining[0], remaining[i], remaining[i + 1]])
+      }
+      return triangles
+    }
+  }
+
+  triangles.push([remaining[0], remaining[1], remaining[2]])
+  return triangles
+}
+
+export function weldVertices(
+  vertexCount: number,
+  streams: [ArrayLike<number>, number][],
+  tolerance: number,
+): number[] {
+  const scale = 1 / tolerance
+  const vertexMap = new Map<string, number>()
+  const representative = new Array<number>(vertexCount)
+
+  for (let i = 0; i < vertexCount; i++) {
+    const parts: number[] = []
+    for (const [array, itemSize] of streams) {
+      for (let j = 0; j < itemSize; j++) {
+        parts.push(Math.round(array[i * itemSize + j] * scale))
+      }
+    }
+    const key = parts.join(",")
+
+    const existing = vertexMap.get(key)
+    if (existing === undefined) {
+      vertexMap.set(key, i)
+      representative[i] = i
+    } else {
+      representative[i] = existing
+    }
+  }
+
+  return representative
+}
+
+export function compactArray<T extends AttributeArray>(
+  source: T,
+  itemSize: number,
+  vertexMap: number[],
+): T {
+  const ArrayType = source.constructor as new (length: number) => T
+  const target = new ArrayType(vertexMap.length * itemSize)
+
+  vertexMap.forEach((oldIndex, newIndex) => {
+    target.set(
+      source.subarray(oldIndex * itemSize, oldIndex * itemSize + itemSize),
+      newIndex * itemSize,
+    )
+  })
+  return target
+}
+
+export function computeVertexNormals(
+  positions: Float32Array,
+  indices: ArrayLike<number>,
+): Float32Array {
+  // Unnormalized face normals weight every face by its area, as Three.js does
+  const normals = new Float32Array(positions.length)
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const a = indices[i] * 3,
+      b = indices[i + 1] * 3,
+      c = indices[i + 2] * 3
+
+    const abx = positions[b] - positions[a],
+      aby = positions[b + 1] - positions[a + 1],
+      abz = positions[b + 2] - positions[a + 2]
+    const acx = positions[c] - positions[a],
+      acy = positions[c + 1] - positions[a + 1],
+      acz = positions[c + 2] - positions[a + 2]
+
+    const nx = aby * acz - abz * acy
+    const ny = abz * acx - abx * acz
+    const nz = abx * acy - aby * acx
+
+    for (const vertex of [a, b, c]) {
+      normals[vertex] += nx
+      normals[vertex + 1] += ny
+      normals[vertex + 2] += nz
+    }
+  }
+
+  for (let i = 0; i < normals.length; i += 3) {
+    const length = Math.hypot(normals[i], normals[i + 1], normals[i + 2])
+    if (length > 0) {
+      normals[i] /= length
+      normals[i + 1] /= length
+      normals[i + 2] /= length
+    }
+  }
+
+  return normals
+}
+
+export interface GeometryAnalysis {
+  vertices: number
+  faces: number
+  duplicateVertices: number
+  looseVertices: number
+  nonManifoldEdges: number
+  nonManifoldVertices: number
+  degenerateFaces: number
+  boundaryEdges: number
+  // Intersecting triangle pairs; needs a BVH, so only the Three.js analysis fills it
+  selfIntersections?: number
+  meshName?: string
+  meshIndex?: number
+}
+
+// Where each issue counted by analyzeMeshBuffers occurs in the mesh
+export interface MeshIssueLocations {
+  duplicateVertices: number[]
+  looseVertices: number[]
+  nonManifoldVertices: number[]
+  // Edges as pairs of vertex indices
+  boundaryEdges: number[]
+  nonManifoldEdges: number[]
+  degenerateFaces: number[]
+}
+
+export function analyzeMeshBuffers(
+  positions: Float32Array,
+  indices: ArrayLike<number> | null,
+): GeometryAnalysis {
+  const issues = locateMeshIssues(positions, indices)
+
+  return {
+    vertices: positions.length / 3,
+    faces: indices ? indices.length / 3 : positions.length / 9,
+    duplicateVertices: issues.duplicateVertices.length,
+    looseVertices: issues.looseVertices.length,
+    nonManifoldEdges: issues.nonManifoldEdges.length / 2,
+    nonManifoldVertices: issues.nonManifoldVertices.length,
+    degenerateFaces: issues.degenerateFaces.length,
+    boundaryEdges: issues.boundaryEdges.length / 2,
+  }
+}
+
+export function locateMeshIssues(
+  positions: Float32Array,
+  indices: ArrayLike<number> | null,
+): MeshIssueLocations {
+  const vertexCount = positions.length / 3
+  const issues: MeshIssueLocations = {
+    duplicateVertices: findDuplicateVerticesFast(positions),
+    looseVertices: [],
+    nonManifoldVertices: [],
+    boundaryEdges: [],
+    nonManifoldEdges: [],
+    degenerateFaces: [],
+  }
+
+  if (indices) {
+    // Single-pass analysis for optimal performance
+    const edgeCount = new Map<number, number>()
+    const vertexFaceCount = new Array<number>(vertexCount).fill(0)
+    const vertexEdgeSet = new Array<Set<number>>(vertexCount)
+
+    // Initialize vertex edge sets
+    for (let i = 0; i < vertexCount; i++) {
+      vertexEdgeSet[i] = new Set()
+    }
+
+    // Single pass through faces
+    for (let i = 0; i < indices.length; i += 3) {
+      const a = indices[i],
+        b = indices[i + 1],
+        c = indices[i + 2]
+
+      // Quick degenerate face check
+      if (a === b || b === c || c === a) {
+        issues.degenerateFaces.push(i / 3)
+        continue
+      }
+
+      // Check for zero-area faces (simplified)
+      if (isZeroAreaFace(positions, a, b, c)) {
+        issues.degenerateFaces.push(i / 3)
+        continue
+      }
+
+      // Count valid faces
+      vertexFaceCount[a]++
+      vertexFaceCount[b]++
+      vertexFaceCount[c]++
+
+      // Process edges using numeric keys for performance
+      const edges = [getEdgeKey(a, b), getEdgeKey(b, c), getEdgeKey(c, a)]
+
+      for (let j = 0; j < 3; j++) {
+        const edgeKey = edges[j]
+        const count = edgeCount.get(edgeKey) || 0
+        edgeCount.set(edgeKey, count + 1)
+
+        // Track vertex connectivity
+        const [v1, v2] = decodeEdgeKey(edgeKey)
+        vertexEdgeSet[v1].add(v2)
+        vertexEdgeSet[v2].add(v1)
+      }
+    }
+
+    // Analyze edge manifoldness in single pass
+    for (const [edgeKey, count] of edgeCount) {
+      if (count === 1) {
+        issues.boundaryEdges.push(...decodeEdgeKey(edgeKey))
+      } else if (count > 2) {
+        issues.nonManifoldEdges.push(...decodeEdgeKey(edgeKey))
+      }
+    }
+
+    // Fast vertex analysis
+    for (let i = 0; i < vertexCount; i++) {
+      if (vertexFaceCount[i] === 0) {
+        issues.looseVertices.push(i)
+      } else {
+        // Simplified non-manifold vertex detection
+        const expectedEdges = vertexFaceCount[i]
+        const actualEdges = vertexEdgeSet[i].size
+        if (actualEdges > expectedEdges + 1) {
+          issues.nonManifoldVertices.push(i)
+        }
+      }
+    }
+  }
+
+  return issues
+}
+
+function findDuplicateVerticesFast(positions: Float32Array): number[] {
+  const tolerance = 0.000001
+  const scale = 1 / tolerance
+  const vertexSet = new Set<number>()
+  const duplicates: number[] = []
+
+  for (let i = 0; i < positions.length; i += 3) {
+    // Use a single number as hash key for better performance
+    const x = Math.round(positions[i] * scale)
+    const y = Math.round(positions[i + 1] * scale)
+    const z = Math.round(positions[i + 2] * scale)
+
+    // Combine coordinates into single hash
+    const hash = (x * 73856093) ^ (y * 19349663) ^ (z * 83492791)
+
+    if (vertexSet.has(hash)) {
+      duplicates.push(i / 3)
+    } else {
+      vertexSet.add(hash)
+    }
+  }
+
+  return duplicates
+}
+
+function isZeroAreaFace(
+  positions: Float32Array,
+  a: number,
+  b: number,
+  c: number,
+): boolean {
+  const tolerance = 0.000001
+
+  // Get vertex positions
+  const ax = positions[a * 3],
+    ay = positions[a * 3 + 1],
+    az = positions[a * 3 + 2]
+  const bx = positions[b * 3],
+    by = positions[b * 3 + 1],
+    bz = positions[b * 3 + 2]
+  const cx = positions[c * 3],
+    cy = positions[c * 3 + 1],
+    cz = positions[c * 3 + 2]
+
+  // Calculate cross product of two edges
+  const abx = bx - ax,
+    aby = by - ay,
+    abz = bz - az
+  const acx = cx - ax,
+    acy = cy - ay,
+    acz = cz - az
+
+  const crossX = aby * acz - abz * acy
+  const crossY = abz * acx - abx * acz
+  const crossZ = abx * acy - aby * acx
+
+  // Check if cross product length is below tolerance
+  const lengthSq = crossX * crossX + crossY * crossY + crossZ * crossZ
+  return lengthSq < tolerance * tolerance
+}
+
+function getEdgeKey(a: number, b: number): number {
+  // Use Cantor pairing function for unique edge keys
+  const min = Math.min(a, b)
+  const max = Math.max(a, b)
+  return ((min + max) * (min + max + 1)) / 2 + max
+}
+
+function decodeEdgeKey(key: number): [number, number] {
+  // Reverse Cantor pairing (simplified for our use case)
+  const w = Math.floor((Math.sqrt(8 * key + 1) - 1) / 2)
+  const t = (w * w + w) / 2
+  const max = key - t
+  const min = w - max
+  return [min, max]
+}
@@ -1,39 +1,46 @@
-interface Vertex {
+import {
+  type IndexedMesh,
+  type IndexedMeshRepair,
+  type MeshRepairOptions,
+  type MeshRepairResults,
+  repairIndexedMesh,
+} from "./geometry_fix_core"
+
+export interface Vertex {
   x: number
   y: number
   z: number
 }
 
-interface Face {
+export interface Face {
   vertices: number[]
-  normal?: Vertex
-  uv?: number[][]
+  uvs?: number[]
+  normals?: number[]
+  material?: string
 }
 
-interface MeshData {
+export interface MeshData {
   vertices: Vertex[]
   faces: Face[]
   normals?: Vertex[]
   uvs?: number[][]
   name?: string
+  object?: string
+  group?: string
+  materialLibraries?: string[]
 }
 
-export interface RepairOptions {
-  mergeTolerance?: number
-  removeLooseVertices?: boolean
-  removeDegenerateFaces?: boolean
-  fixNonManifoldEdges?: boolean
-  ensureManifold?: boolean
-  onProgress?: (progress: number, operation: string) => void
+interface MeshBuilder {
+  mesh: MeshData
+  vertexMap: Map<number, number>
+  uvMap: Map<number, number>
+  normalMap: Map<number, number>
 }
 
-export interface RepairResults {
-  mergedVertices: number
-  removedLooseVertices: number
-  removedDegenerateFaces: number
-  fixedNonManifoldEdges: number
-  totalIssuesFound: number
-  totalIssuesFixed: number
+export interface ObjCorner {
+  uv?: number
+  normal?: number
+  material?: string
 }
 
 export class ObjGeometryRepairer {
@@ -44,14 +51,22 @@ export class ObjGeometryRepairer {
   }
 
   parseObjFiles(objContent: string): MeshData[] {
-    const lines = objContent.split("\n")
+    const lines = objContent.split(/\r?\n/)
     const vertices: Vertex[] = []
     const normals: Vertex[] = []
     const uvs: number[][] = []
-    const faces: Face[] = []
+    const materialLibraries: string[] = []
+    const meshes: MeshData[] = []
+
+    let objectName: string | undefined
+    let groupName: string | undefined
+    let material: string | undefined
+    let builder: MeshBuilder | null = null
 
     for (const line of lines) {
-      const parts = line.trim().split(/\s+/)
+      const trimmed = line.trim()
+      const parts = trimmed.split(/\s+/)
+      const rest = trimmed.slice(parts[0].length).trim()
 
       if (parts[0] === "v") {
         vertices.push({
@@ -66,320 +81,366 @@ export class ObjGeometryRepairer {
           z: parseFloat(parts[3]),
         })
       } else if (parts[0] === "vt") {
-        uvs.push([parseFloat(parts[1]), parseFloat(parts[2])])
+        uvs.push([parseFloat(parts[1]) || 0, parseFloat(parts[2]) || 0])
+      } else if (parts[0] === "o") {
+        objectName = rest || undefined
+        groupName = undefined
+        builder = null
+      } else if (parts[0] === "g") {
+        groupName = rest || undefined
+        builder = null
+      } else if (parts[0] === "usemtl") {
+        material = rest || undefined
+      } else if (parts[0] === "mtllib") {
+        if (rest) materialLibraries.push(rest)
       } else if (parts[0] === "f") {
-        const faceVertices: number[] = []
-        const faceUvs: number[][] = []
-
-        for (let i = 1; i < parts.length; i++) {
-          const vertexData = parts[i].split("/")
-          const vertexIndex = parseInt(vertexData[1], 10) - 1
-          faceVertices.push(vertexIndex)
-
-          if (vertexData.length > 1 && vertexData[1]) {
-            const uvIndex = parseInt(vertexData[1], 10) - 1
-            if (uvs[uvIndex]) {
-              faceUvs.push(uvs[uvIndex])
-            }
+        if (!builder) {
+          builder = {
+            mesh: {
+              vertices: [],
+              faces: [],
+              name: groupName ?? objectName,
+              object: objectName,
+              group: groupName,
+            },
+            vertexMap: new Map(),
+            uvMap: new Map(),
+            normalMap: new Map(),
           }
+          meshes.push(builder.mesh)
+        }
 
-          if (faceVertices.length >= 3) {
-            faces.push({
-              vertices: faceVertices,
-              uv: faceUvs.length > 0 ? faceUvs : undefined,
-            })
-          }
+        const face = this.parseFace(
+          parts.slice(1),
+          builder,
+          vertices,
+          uvs,
+          normals,
+        )
+        if (face) {
+          face.material = material
+          builder.mesh.faces.push(face)
         }
       }
     }
 
-    return [
-      {
-        vertices,
-        faces,
-        normals: normals.length > 0 ? normals : undefined,
-        uvs: uvs.length > 0 ? uvs : undefined,
-      },
-    ]
-  }
-
-  repairMeshData(
-    meshData: MeshData,
-    options: RepairOptions = {},
-  ): RepairResults {
-    const {
-      mergeTolerance = this.tolerance,
-      removeLooseVertices = true,
-      removeDegenerateFaces = true,
-      fixNonManifoldEdges = true,
-      onProgress,
-    } = options
-
-    const results: RepairResults = {
-      mergedVertices: 0,
-      removedLooseVertices: 0,
-      removedDegenerateFaces: 0,
-      fixedNonManifoldEdges: 0,
-      totalIssuesFound: 0,
-      totalIssuesFixed: 0,
-    }
-
-    onProgress?.(10, "Merging duplicate vertices")
-    results.mergedVertices = this.mergeVertices(meshData, mergeTolerance)
-
-    if (removeDegenerateFaces) {
-      onProgress?.(30, "Removing degenerate faces")
-      results.removedDegenerateFaces = this.removeDegenerateFaces(meshData)
+    if (meshes.length === 0 && vertices.length > 0) {
+      meshes.push({ vertices, faces: [] })
     }
 
-    if (fixNonManifoldEdges) {
-      onProgress?.(50, "Fixing non-manifold edges")
-      results.fixedNonManifoldEdges = this.fixNonManifoldEdges(meshData)
+    for (const mesh of meshes) {
+      if (materialLibraries.length > 0)
+        mesh.materialLibraries = materialLibraries
+      if (mesh.uvs?.length === 0) mesh.uvs = undefined
+      if (mesh.normals?.length === 0) mesh.normals = undefined
     }
 
-    if (removeLooseVertices) {
-      onProgress?.(70, "Removing loose vertices")
-      results.removedLooseVertices = this.removeLooseVertices(meshData)
-    }
-
-    onProgress?.(90, "Recalculating normals")
-    this.recalculateNormals(meshData)
-
-    onProgress?.(100, "Geometry repair complete")
-    results.totalIssuesFound =
-      results.mergedVertices +
-      results.removedDegenerateFaces +
-      results.fixedNonManifoldEdges +
-      results.removedLooseVertices
-    results.totalIssuesFixed = results.totalIssuesFound
-
-    return results
+    return meshes
   }
 
-  private mergeVertices(meshData: MeshData, tolerance: number): number {
-    const vertexMap = new Map<string, number>()
-    const newVertices: Vertex[] = []
-    const indexRemap = new Map<number, number>()
-    let mergedCount = 0
-
-    for (let i = 0; i < meshData.vertices.length; i++) {
-      const v = meshData.vertices[i]
-      const key = `${Math.round(v.x / tolerance) * tolerance},${Math.round(v.y / tolerance) * tolerance},${Math.round(v.z / tolerance) * tolerance}`
-
-      if (vertexMap.has(key)) {
-        indexRemap.set(i, vertexMap.get(key)!)
-        mergedCount++
-      } else {
-        const newIndex = newVertices.length
-        vertexMap.set(key, newIndex)
-        indexRemap.set(i, newIndex)
-        newVertices.push(v)
+  private parseFace(
+    tokens: string[],
+    builder: MeshBuilder,
+    vertices: Vertex[],
+    uvs: number[][],
+    normals: Vertex[],
+  ): Face | null {
+    const mesh = builder.mesh
+    mesh.uvs ??= []
+    mesh.normals ??= []
+
+    const faceVertices: number[] = []
+    const faceUvs: number[] = []
+    const faceNormals: number[] = []
+
+    for (const token of tokens) {
+      const [v, vt, vn] = token.split("/")
+
+      const vertexIndex = this.resolveObjIndex(v, vertices.length)
+      if (vertexIndex < 0) return null
+      faceVertices.push(
+        this.localIndex(
+          builder.vertexMap,
+          vertexIndex,
+          vertices,
+          mesh.vertices,
+        ),
+      )
+
+      const uvIndex = this.resolveObjIndex(vt, uvs.length)
+      if (uvIndex >= 0) {
+        faceUvs.push(this.localIndex(builder.uvMap, uvIndex, uvs, mesh.uvs))
       }
-    }
 
-    for (const face of meshData.faces) {
-      for (let i = 0; i < face.vertices.length; i++) {
-        face.vertices[i] = indexRemap.get(face.vertices[i]) ?? face.vertices[i]
+      const normalIndex = this.resolveObjIndex(vn, normals.length)
+      if (normalIndex >= 0) {
+        faceNormals.push(
+          this.localIndex(
+            builder.normalMap,
+            normalIndex,
+            normals,
+            mesh.normals,
+          ),
+        )
       }
     }
 
-    meshData.vertices = newVertices
-    return mergedCount
-  }
+    if (faceVertices.length < 3) return null
 
-  private removeDegenerateFaces(meshData: MeshData): number {
-    const validFaces: Face[] = []
-    let removedCount = 0
-
-    for (const face of meshData.faces) {
-      if (this.isDegenerateFace(face, meshData.vertices)) {
-        removedCount++
-      } else {
-        validFaces.push(face)
-      }
+    return {
+      vertices: faceVertices,
+      uvs: faceUvs.length === faceVertices.length ? faceUvs : undefined,
+      normals:
+        faceNormals.length === faceVertices.length ? faceNormals : undefined,
     }
-
-    meshData.faces = validFaces
-    return removedCount
   }
 
-  private isDegenerateFace(face: Face, vertices: Vertex[]): boolean {
-    if (face.vertices.length < 3) return true
-
-    const uniqueIndices = new Set(face.vertices)
-    if (uniqueIndices.size < 3) return true
+  private resolveObjIndex(token: string | undefined, count: number): number {
+    if (!token) return -1
 
-    const v0 = vertices[face.vertices[0]]
-    const v1 = vertices[face.vertices[1]]
-    const v2 = vertices[face.vertices[2]]
+    const index = parseInt(token, 10)
+    if (Number.isNaN(index) || index === 0) return -1
 
-    const edge1 = { x: v1.x - v0.x, y: v1.y - v0.y, z: v1.z - v0.z }
-    const edge2 = { x: v2.x - v0.x, y: v2.y - v0.y, z: v2.z - v0.z }
+    const resolved = index < 0 ? count + index : index - 1
+    return resolved >= 0 && resolved < count ? resolved : -1
+  }
 
-    const cross = {
-      x: edge1.y * edge2.z - edge1.z * edge2.y,
-      y: edge1.z * edge2.x - edge1.x * edge2.z,
-      z: edge1.x * edge2.y - edge1.y * edge2.x,
+  private localIndex<T>(
+    indexMap: Map<number, number>,
+    globalIndex: number,
+    source: T[],
+    target: T[],
+  ): number {
+    let local = indexMap.get(globalIndex)
+    if (local === undefined) {
+      local = target.length
+      indexMap.set(globalIndex, local)
+      target.push(source[globalIndex])
     }
-
-    const lengthSq = cross.x * cross.x + cross.y * cross.y + cross.z * cross.z
-    return lengthSq < this.tolerance * this.tolerance
+    return local
   }
 
-  private fixNonManifoldEdges(meshData: MeshData): number {
-    const edgeCount = new Map<string, number>()
-    const facesToRemove = new Set<number>()
-
-    for (let faceIndex = 0; faceIndex < meshData.faces.length; faceIndex++) {
-      const face = meshData.faces[faceIndex]
+  repairMeshData(
+    meshData: MeshData,
+    options: MeshRepairOptions = {},
+  ): MeshRepairResults {
+    const { mesh, corners } = meshDataToIndexedMesh(meshData)
+    const result = repairIndexedMesh(mesh, {
+      ...options,
+      mergeTolerance: options.mergeTolerance ?? this.tolerance,
+    })
+    applyIndexedMesh(meshData, corners, result)
+    return { repairs: result.repairs }
+  }
 
-      for (let i = 0; i < face.vertices.length; i++) {
-        const v1 = face.vertices[i]
-        const v2 = face.vertices[(i + 1) % face.vertices.length]
-        const edgeKey = `${Math.min(v1, v2)}-${Math.max(v1, v2)}`
+  meshDataToObj(meshData: MeshData | MeshData[]): string {
+    const meshes = Array.isArray(meshData) ? meshData : [meshData]
+    const lines: string[] = []
 
-        const count = edgeCount.get(edgeKey) || 0
-        edgeCount.set(edgeKey, count + 1)
-      }
+    const materialLibraries = new Set(
+      meshes.flatMap((mesh) => mesh.materialLibraries ?? []),
+    )
+    for (const library of materialLibraries) {
+      lines.push(`mtllib ${library}`)
     }
 
-    let removedCount = 0
-    for (let faceIndex = 0; faceIndex < meshData.faces.length; faceIndex++) {
-      const face = meshData.faces[faceIndex]
-      let hasNonManifoldEdge = false
-
-      for (let i = 0; i < face.vertices.length; i++) {
-        const v1 = face.vertices[i]
-        const v2 = face.vertices[(i + 1) % face.vertices.length]
-        const edgeKey = `${Math.min(v1, v2)}-${Math.max(v1, v2)}`
-
-        if ((edgeCount.get(edgeKey) || 0) > 2) {
-          hasNonManifoldEdge = true
-          break
-        }
+    let vertexOffset = 1
+    let uvOffset = 1
+    let normalOffset = 1
+    let currentObject: string | undefined
+
+    for (const mesh of meshes) {
+      // Each mesh states its own material, so readers that reset the
+      // material at an object or group boundary keep it
+      let currentMaterial: string | undefined
+      const object = mesh.object ?? (mesh.group ? undefined : mesh.name)
+      if (object !== undefined && object !== currentObject) {
+        lines.push(`o ${object}`)
+        currentObject = object
       }
-
-      if (hasNonManifoldEdge) {
-        facesToRemove.add(faceIndex)
-        removedCount++
+      if (mesh.group !== undefined) {
+        lines.push(`g ${mesh.group}`)
       }
-    }
 
-    meshData.faces = meshData.faces.filter(
-      (_, index) => !facesToRemove.has(index),
-    )
-    return removedCount
-  }
+      for (const vertex of mesh.vertices) {
+        lines.push(`v ${vertex.x} ${vertex.y} ${vertex.z}`)
+      }
 
-  private removeLooseVertices(meshData: MeshData): number {
-    const usedVertices = new Set<number>()
+      if (mesh.uvs) {
+        for (const uv of mesh.uvs) {
+          lines.push(`vt ${uv[0]} ${uv[1]}`)
+        }
+      }
 
-    for (const face of meshData.faces) {
-      for (const vertex of face.vertices) {
-        usedVertices.add(vertex)
+      if (mesh.normals) {
+        for (const normal of mesh.normals) {
+          lines.push(`vn ${normal.x} ${normal.y} ${normal.z}`)
+        }
       }
-    }
 
-    const newVertices: Vertex[] = []
-    const indexRemap = new Map<number, number>()
-    let removedCount = 0
+      for (const face of mesh.faces) {
+        if (face.material !== undefined && face.material !== currentMaterial) {
+          lines.push(`usemtl ${face.material}`)
+          currentMaterial = face.material
+        }
 
-    for (let i = 0; i < meshData.vertices.length; i++) {
-      if (usedVertices.has(i)) {
-        indexRemap.set(i, newVertices.length)
-        newVertices.push(meshData.vertices[i])
-      } else {
-        removedCount++
+        const faceText = face.vertices
+          .map((v, i) => {
+            const uv = face.uvs && mesh.uvs ? `${face.uvs[i] + uvOffset}` : ""
+            const normal =
+              face.normals && mesh.normals
+                ? `/${face.normals[i] + normalOffset}`
+                : ""
+            const vertex = `${v + vertexOffset}`
+            return uv || normal ? `${vertex}/${uv}${normal}` : vertex
+          })
+          .join(" ")
+        lines.push(`f ${faceText}`)
       }
-    }
 
-    for (const face of meshData.faces) {
-      for (let i = 0; i < face.vertices.length; i++) {
-        face.vertices[i] = indexRemap.get(face.vertices[i]) ?? face.vertices[i]
-      }
+      vertexOffset += mesh.vertices.length
+      uvOffset += mesh.uvs?.length ?? 0
+      normalOffset += mesh.normals?.length ?? 0
     }
 
-    meshData.vertices = newVertices
-    return removedCount
+    return lines.join("\n")
   }
+}
 
-  private recalculateNormals(meshData: MeshData): void {
-    const vertexNormals: Vertex[] = new Array(meshData.vertices.length).fill({
-      x: 0,
-      y: 0,
-      z: 0,
+// Faces are fan-triangulated; each corner keeps its OBJ texture and normal indices
+export function meshDataToIndexedMesh(meshData: MeshData): {
+  mesh: IndexedMesh
+  corners: ObjCorner[]
+} {
+  const indices: number[] = []
+  const cornerIds: number[] = []
+  const corners: ObjCorner[] = []
+
+  for (const face of meshData.faces) {
+    const faceCorners = face.vertices.map((_, i) => {
+      corners.push({
+        uv: face.uvs?.[i],
+        normal: face.normals?.[i],
+        material: face.material,
+      })
+      return corners.length - 1
     })
 
-    for (const face of meshData.faces) {
-      if (face.vertices.length < 3) continue
-
-      const v0 = meshData.vertices[face.vertices[0]]
-      const v1 = meshData.vertices[face.vertices[1]]
-      const v2 = meshData.vertices[face.vertices[2]]
-
-      const edge1 = { x: v1.x - v0.x, y: v1.y - v0.y, z: v1.z - v0.z }
-      const edge2 = { x: v2.x - v0.x, y: v2.y - v0.y, z: v2.z - v0.z }
-
-      const normal = {
-        x: edge1.y * edge2.z - edge1.z * edge2.y,
-        y: edge1.z * edge2.x - edge1.x * edge2.z,
-        z: edge1.x * edge2.y - edge1.y * edge2.x,
-      }
-
-      const length = Math.sqrt(
-        normal.x * normal.x + normal.y * normal.y + normal.z * normal.z,
-      )
-
-      if (length > 0) {
-        normal.x /= length
-        normal.y /= length
-        normal.z /= length
-      }
-
-      for (const vertexIndex of face.vertices) {
-        vertexNormals[vertexIndex].x += normal.x
-        vertexNormals[vertexIndex].y += normal.y
-        vertexNormals[vertexIndex].z += normal.z
-      }
-    }
-    for (const normal of vertexNormals) {
-      const length = Math.sqrt(
-        normal.x * normal.x + normal.y * normal.y + normal.z * normal.z,
-      )
-      if (length > 0) {
-        normal.x /= length
-        normal.y /= length
-        normal.z /= length
-      }
+    for (let i = 1; i < face.vertices.length - 1; i++) {
+      indices.push(face.vertices[0], face.vertices[i], face.vertices[i + 1])
+      cornerIds.push(faceCorners[0], faceCorners[i], faceCorners[i + 1])
     }
-
-    meshData.normals = vertexNormals
   }
 
-  meshDataToObj(meshData: MeshData): string {
-    const lines: string[] = []
+  return {
+    mesh: {
+      positions: Float32Array.from(
+        meshData.vertices.flatMap((v) => [v.x, v.y, v.z]),
+      ),
+      normals: null,
+      indices: Uint32Array.from(indices),
+      attributes: [],
+      corners: Uint32Array.from(cornerIds),
+    },
+    corners,
+  }
+}
 
-    for (const vertex of meshData.vertices) {
-      lines.push(`v ${vertex.x} ${vertex.y} ${vertex.z}`)
-    }
+export function applyIndexedMesh(
+  meshData: MeshData,
+  corners: ObjCorner[],
+  { mesh, flippedFaces }: IndexedMeshRepair,
+): void {
+  const { positions, normals, indices } = mesh
+  const faceCorners = mesh.corners ?? new Uint32Array()
+  const faces: Face[] = []
+  const flipped = new Set(flippedFaces)
+  const turnedNormals = new Map<number, number>()
+
+  meshData.vertices = []
+  for (let i = 0; i < positions.length; i += 3) {
+    meshData.vertices.push({
+      x: positions[i],
+      y: positions[i + 1],
+      z: positions[i + 2],
+    })
+  }
 
-    if (meshData.normals) {
-      for (const normal of meshData.normals) {
-        lines.push(`vn ${normal.x} ${normal.y} ${normal.z}`)
-      }
+  for (let i = 0; i < indices.length; i += 3) {
+    const vertices = [indices[i], indices[i + 1], indices[i + 2]]
+    const triangle = [0, 1, 2].map((j) => corners[faceCorners[i + j]])
+    const uvs = triangle.map((corner) => corner?.uv)
+    let faceNormals = triangle.map((corner) => corner?.normal)
+    if (!normals && flipped.has(i / 3)) {
+      faceNormals = alignCornerNormals(
+        meshData,
+        positions,
+        vertices,
+        faceNormals,
+        turnedNormals,
+      )
     }
 
-    if (meshData.uvs) {
-      for (const uv of meshData.uvs) {
-        lines.push(`vt ${uv[0]} ${uv[1]}`)
-      }
+    faces.push({
+      vertices,
+      uvs: uvs.every((uv) => uv !== undefined) ? uvs : undefined,
+      normals: normals
+        ? [...vertices]
+        : faceNormals.every((normal) => normal !== undefined)
+          ? faceNormals
+          : undefined,
+      material: triangle[0]?.material,
+    })
+  }
+  meshData.faces = faces
+
+  // Recalculated normals are per vertex, so faces reference them by vertex index
+  if (normals) {
+    meshData.normals = []
+    for (let i = 0; i < normals.length; i += 3) {
+      meshData.normals.push({
+        x: normals[i],
+        y: normals[i + 1],
+        z: normals[i + 2],
+      })
     }
+  }
+}
 
-    for (const face of meshData.faces) {
-      const faceText = face.vertices.map((v) => (v + 1).toString()).join(" ")
-      lines.push(`f ${faceText}`)
+// Corner normals of a reoriented face that point against its new winding are
+// replaced by negated copies, as other faces may share them
+function alignCornerNormals(
+  meshData: MeshData,
+  positions: Float32Array,
+  vertices: number[],
+  faceNormals: (number | undefined)[],
+  turnedNormals: Map<number, number>,
+): (number | undefined)[] {
+  const normals = meshData.normals
+  if (!normals) return faceNormals
+
+  const [a, b, c] = vertices.map((vertex) => vertex * 3)
+  const abx = positions[b] - positions[a],
+    aby = positions[b + 1] - positions[a + 1],
+    abz = positions[b + 2] - positions[a + 2]
+  const acx = positions[c] - positions[a],
+    acy = positions[c + 1] - positions[a + 1],
+    acz = positions[c + 2] - positions[a + 2]
+  const nx = aby * acz - abz * acy
+  const ny = abz * acx - abx * acz
+  const nz = abx * acy - aby * acx
+
+  return faceNormals.map((index) => {
+    const normal = index === undefined ? undefined : normals[index]
+    if (index === undefined || !normal) return index
+    if (normal.x * nx + normal.y * ny + normal.z * nz >= 0) return index
+
+    let turned = turnedNormals.get(index)
+    if (turned === undefined) {
+      turned = normals.length
+      normals.push({ x: -normal.x, y: -normal.y, z: -normal.z })
+      turnedNormals.set(index, turned)
     }
-
-    return lines.join("\n")
-  }
+    return turned
+  })
 }
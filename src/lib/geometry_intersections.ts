@@ -0,0 +1,96 @@
+import * as THREE from "three"
+import { type ExtendedTriangle, MeshBVH } from "three-mesh-bvh"
+
+export interface SelfIntersections {
+  // Intersecting triangle pairs, counting each pair once
+  pairs: number
+  // Indices of every triangle taking part in an intersection, ascending
+  triangles: number[]
+}
+
+export function findSelfIntersections(
+  geometry: THREE.BufferGeometry,
+  tolerance: number = 0.000001,
+): SelfIntersections {
+  const position = geometry.getAttribute("position")
+  if (!position || position.count < 3) return { pairs: 0, triangles: [] }
+
+  // The BVH is built on a shallow copy so the source index is never reordered
+  // and non-indexed geometry does not gain an index
+  const source = new THREE.BufferGeometry()
+  source.setAttribute("position", position)
+  if (geometry.index) source.setIndex(geometry.index)
+  const bvh = new MeshBVH(source, { indirect: true })
+  const triangleCount = Math.floor(
+    (geometry.index?.count ?? position.count) / 3,
+  )
+
+  const pairs = new Set<number>()
+  const triangles = new Set<number>()
+  const toleranceSq = tolerance * tolerance
+
+  // Neighbouring faces always touch along their shared edge or corner
+  const sharesVertex = (t1: ExtendedTriangle, t2: ExtendedTriangle) =>
+    [t1.a, t1.b, t1.c].some((p) =>
+      [t2.a, t2.b, t2.c].some((q) => p.distanceToSquared(q) <= toleranceSq),
+    )
+
+  bvh.bvhcast(bvh, new THREE.Matrix4(), {
+    intersectsTriangles: (t1, t2, i1, i2) => {
+      const a = bvh.resolveTriangleIndex(i1)
+      const b = bvh.resolveTriangleIndex(i2)
+      if (a >= b || sharesVertex(t1, t2) || !t1.intersectsTriangle(t2)) {
+        return false
+      }
+
+      pairs.add(a * triangleCount + b)
+      triangles.add(a)
+      triangles.add(b)
+      return false
+    },
+  })
+
+  return {
+    pairs: pairs.size,
+    triangles: Array.from(triangles).sort((a, b) => a - b),
+  }
+}
+
+export function createIntersectionHighlight(
+  mesh: THREE.Mesh,
+  triangles: number[],
+  color: THREE.ColorRepresentation = 0xff00ff,
+): THREE.Mesh {
+  const position = mesh.geometry.getAttribute("position")
+  const index = mesh.geometry.index
+  const positions = new Float32Array(triangles.length * 9)
+
+  triangles.forEach((triangle, i) => {
+    for (let j = 0; j < 3; j++) {
+      const vertex = index ? index.getX(triangle * 3 + j) : triangle * 3 + j
+      positions[i * 9 + j * 3] = position.getX(vertex)
+      positions[i * 9 + j * 3 + 1] = position.getY(vertex)
+      positions[i * 9 + j * 3 + 2] = position.getZ(vertex)
+    }
+  })
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+
+  // Drawn on top of the model so faces buried inside another shell stay visible
+  const highlight = new THREE.Mesh(
+    geometry,
+    new THREE.MeshBasicMaterial({
+      color,
+      side: THREE.DoubleSide,
+      transparent: true,
+      opacity: 0.7,
+      depthTest: false,
+    }),
+  )
+  highlight.name = `${mesh.name || "Mesh"}_intersections`
+  highlight.renderOrder = 999
+  highlight.matrixAutoUpdate = false
+  highlight.matrix.copy(mesh.matrixWorld)
+  return highlight
+}
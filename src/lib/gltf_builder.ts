@@ -0,0 +1,296 @@
+import {
+  type Accessor,
+  type Buffer,
+  Document,
+  type Material,
+  type Node,
+  type Texture,
+  type TypedArray,
+} from "@gltf-transform/core"
+import type { MeshData } from "./geometry_fix_obj"
+
+export interface ObjMaterial {
+  name: string
+  diffuseColor?: [number, number, number]
+  emissiveColor?: [number, number, number]
+  opacity?: number
+  diffuseMap?: string
+  normalMap?: string
+  emissiveMap?: string
+}
+
+export interface GltfBuildOptions {
+  materials?: ObjMaterial[]
+  readTexture?: (uri: string) => Uint8Array | null
+}
+
+interface VertexStreams {
+  positions: number[]
+  normals: number[] | null
+  uvs: number[] | null
+  indicesByMaterial: Map<string | undefined, number[]>
+}
+
+const textureMimeTypes: Record<string, string> = {
+  png: "image/png",
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  webp: "image/webp",
+  ktx2: "image/ktx2",
+}
+
+export function parseMtl(mtlContent: string): ObjMaterial[] {
+  const materials: ObjMaterial[] = []
+  let current: ObjMaterial | null = null
+
+  const parseColor = (parts: string[]): [number, number, number] => [
+    parseFloat(parts[1]) || 0,
+    parseFloat(parts[2]) || 0,
+    parseFloat(parts[3]) || 0,
+  ]
+
+  // Texture statements may carry options (-bm 1.0, -s 1 1 1); the file name is last
+  const parseMap = (parts: string[]) => parts[parts.length - 1]
+
+  for (const line of mtlContent.split(/\r?\n/)) {
+    const parts = line.trim().split(/\s+/)
+    const keyword = parts[0]
+
+    if (keyword === "newmtl") {
+      current = { name: line.trim().slice(keyword.length).trim() }
+      materials.push(current)
+      continue
+    }
+    if (!current || parts.length < 2) continue
+
+    if (keyword === "Kd") {
+      current.diffuseColor = parseColor(parts)
+    } else if (keyword === "Ke") {
+      current.emissiveColor = parseColor(parts)
+    } else if (keyword === "d") {
+      current.opacity = parseFloat(parts[1])
+    } else if (keyword === "Tr") {
+      current.opacity = 1 - parseFloat(parts[1])
+    } else if (keyword === "map_Kd") {
+      current.diffuseMap = parseMap(parts)
+    } else if (keyword === "map_Ke") {
+      current.emissiveMap = parseMap(parts)
+    } else if (
+      keyword === "map_Bump" ||
+      keyword === "map_bump" ||
+      keyword === "bump" ||
+      keyword === "norm"
+    ) {
+      current.normalMap = parseMap(parts)
+    }
+  }
+
+  return materials
+}
+
+export function meshDataToDocument(
+  meshes: MeshData[],
+  options: GltfBuildOptions = {},
+): Document {
+  const { materials = [], readTexture } = options
+
+  const document = new Document()
+  const buffer = document.createBuffer()
+  const scene = document.createScene()
+
+  const materialDefinitions = new Map(materials.map((m) => [m.name, m]))
+  const materialCache = new Map<string, Material>()
+  const textureCache = new Map<string, Texture | null>()
+  const objectNodes = new Map<string, Node>()
+
+  const getTexture = (uri: string | undefined): Texture | null => {
+    if (!uri || !readTexture) return null
+    if (textureCache.has(uri)) return textureCache.get(uri) ?? null
+
+    const extension = uri.split(".").pop()?.toLowerCase() ?? ""
+    const mimeType = textureMimeTypes[extension]
+    const image = mimeType ? readTexture(uri) : null
+
+    const texture = image
+      ? document
+          .createTexture(uri)
+          .setImage(image)
+          .setMimeType(mimeType)
+          .setURI(uri.split(/[\\/]/).pop() ?? uri)
+      : null
+    textureCache.set(uri, texture)
+    return texture
+  }
+
+  const getMaterial = (name: string): Material => {
+    const cached = materialCache.get(name)
+    if (cached) return cached
+
+    const definition = materialDefinitions.get(name)
+    const material = document
+      .createMaterial(name)
+      .setMetallicFactor(0)
+      .setRoughnessFactor(1)
+
+    if (definition) {
+      const [r, g, b] = definition.diffuseColor ?? [1, 1, 1]
+      const opacity = definition.opacity ?? 1
+      material.setBaseColorFactor([r, g, b, opacity])
+      if (opacity < 1) material.setAlphaMode("BLEND")
+      if (definition.emissiveColor) {
+        material.setEmissiveFactor(definition.emissiveColor)
+      }
+      material.setBaseColorTexture(getTexture(definition.diffuseMap))
+      material.setNormalTexture(getTexture(definition.normalMap))
+      material.setEmissiveTexture(getTexture(definition.emissiveMap))
+    }
+
+    materialCache.set(name, material)
+    return material
+  }
+
+  for (const meshData of meshes) {
+    if (meshData.faces.length === 0) continue
+
+    const streams = buildVertexStreams(meshData)
+    const mesh = document.createMesh(meshData.name ?? "")
+
+    const position = createAccessor(
+      document,
+      buffer,
+      "VEC3",
+      new Float32Array(streams.positions),
+    )
+    const normal = streams.normals
+      ? createAccessor(
+          document,
+          buffer,
+          "VEC3",
+          new Float32Array(streams.normals),
+        )
+      : null
+    const uv = streams.uvs
+      ? createAccessor(document, buffer, "VEC2", new Float32Array(streams.uvs))
+      : null
+
+    const vertexCount = streams.positions.length / 3
+    for (const [materialName, indices] of streams.indicesByMaterial) {
+      if (indices.length === 0) continue
+
+      const indexArray =
+        vertexCount > 65535
+          ? new Uint32Array(indices)
+          : new Uint16Array(indices)
+      const primitive = document
+        .createPrimitive()
+        .setAttribute("POSITION", position)
+        .setIndices(createAccessor(document, buffer, "SCALAR", indexArray))
+
+      if (normal) primitive.setAttribute("NORMAL", normal)
+      if (uv) primitive.setAttribute("TEXCOORD_0", uv)
+      if (materialName !== undefined) {
+        primitive.setMaterial(getMaterial(materialName))
+      }
+
+      mesh.addPrimitive(primitive)
+    }
+
+    const node = document.createNode(meshData.name ?? "").setMesh(mesh)
+
+    // Groups of the same OBJ object share a parent node named after the object
+    if (meshData.object !== undefined && meshData.group !== undefined) {
+      let objectNode = objectNodes.get(meshData.object)
+      if (!objectNode) {
+        objectNode = document.createNode(meshData.object)
+        objectNodes.set(meshData.object, objectNode)
+        scene.addChild(objectNode)
+      }
+      objectNode.addChild(node)
+    } else {
+      scene.addChild(node)
+    }
+  }
+
+  document.getRoot().setDefaultScene(scene)
+  return document
+}
+
+function createAccessor(
+  document: Document,
+  buffer: Buffer,
+  type: "SCALAR" | "VEC2" | "VEC3",
+  array: TypedArray,
+): Accessor {
+  return document
+    .createAccessor()
+    .setType(type)
+    .setArray(array)
+    .setBuffer(buffer)
+}
+
+function buildVertexStreams(meshData: MeshData): VertexStreams {
+  // glTF attributes are indexed together, so every unique v/vt/vn corner becomes one vertex
+  const hasNormals =
+    meshData.normals !== undefined &&
+    meshData.faces.every((face) => face.normals)
+  const hasUvs =
+    meshData.uvs !== undefined && meshData.faces.every((face) => face.uvs)
+
+  const streams: VertexStreams = {
+    positions: [],
+    normals: hasNormals ? [] : null,
+    uvs: hasUvs ? [] : null,
+    indicesByMaterial: new Map(),
+  }
+  const cornerMap = new Map<string, number>()
+
+  const addCorner = (
+    vertexIndex: number,
+    uvIndex: number,
+    normalIndex: number,
+  ): number => {
+    const key = `${vertexIndex}/${uvIndex}/${normalIndex}`
+    const existing = cornerMap.get(key)
+    if (existing !== undefined) return existing
+
+    const index = streams.positions.length / 3
+    const vertex = meshData.vertices[vertexIndex]
+    streams.positions.push(vertex.x, vertex.y, vertex.z)
+
+    if (streams.normals && meshData.normals) {
+      const n = meshData.normals[normalIndex] ?? { x: 0, y: 0, z: 0 }
+      streams.normals.push(n.x, n.y, n.z)
+    }
+
+    if (streams.uvs && meshData.uvs) {
+      const [u, v] = meshData.uvs[uvIndex] ?? [0, 0]
+      // OBJ texture space starts at the bottom left, glTF at the top left
+      streams.uvs.push(u, 1 - v)
+    }
+
+    cornerMap.set(key, index)
+    return index
+  }
+
+  for (const face of meshData.faces) {
+    let indices = streams.indicesByMaterial.get(face.material)
+    if (!indices) {
+      indices = []
+      streams.indicesByMaterial.set(face.material, indices)
+    }
+
+    const corners = face.vertices.map((vertexIndex, i) =>
+      addCorner(
+        vertexIndex,
+        hasUvs ? (face.uvs?.[i] ?? -1) : -1,
+        hasNormals ? (face.normals?.[i] ?? -1) : -1,
+      ),
+    )
+
+    for (let i = 1; i < corners.length - 1; i++) {
+      indices.push(corners[0], corners[i], corners[i + 1])
+    }
+  }
+
+  return streams
+}
@@ -0,0 +1,56 @@
+import { type Document, Logger, NodeIO } from "@gltf-transform/core"
+import { ALL_EXTENSIONS } from "@gltf-transform/extensions"
+import { draco, meshopt } from "@gltf-transform/functions"
+import draco3d from "draco3dgltf"
+import { MeshoptDecoder, MeshoptEncoder } from "meshoptimizer"
+import { MSFTLod } from "./gltf_lod"
+
+// Geometry compression only. KTX2/Basis textures would need the KTX-Software
+// encoder, which has no JavaScript build the scripts could depend on
+export const compressionMethods = ["draco", "meshopt"] as const
+
+export type CompressionMethod = (typeof compressionMethods)[number]
+
+let io: Promise<NodeIO> | null = null
+
+// Reads and writes every extension the scripts produce, including Draco and
+// Meshopt compressed geometry. The codecs are compiled once per process
+export function createNodeIO(): Promise<NodeIO> {
+  io ??= (async () => {
+    const [decoder, encoder] = await Promise.all([
+      draco3d.createDecoderModule(),
+      draco3d.createEncoderModule(),
+      MeshoptDecoder.ready,
+      MeshoptEncoder.ready,
+    ])
+    return new NodeIO()
+      .setLogger(new Logger(Logger.Verbosity.WARN))
+      .registerExtensions([...ALL_EXTENSIONS, MSFTLod])
+      .registerDependencies({
+        "draco3d.decoder": decoder,
+        "draco3d.encoder": encoder,
+        "meshopt.decoder": MeshoptDecoder,
+        "meshopt.encoder": MeshoptEncoder,
+      })
+  })()
+  return io
+}
+
+export function isCompressionMethod(value: string): value is CompressionMethod {
+  return compressionMethods.some((method) => method === value)
+}
+
+// Marks every mesh for compression, which happens when the document is written
+export async function compressDocument(
+  document: Document,
+  method: CompressionMethod,
+): Promise<void> {
+  switch (method) {
+    case "draco":
+      await document.transform(draco())
+      break
+    case "meshopt":
+      await document.transform(meshopt({ encoder: MeshoptEncoder }))
+      break
+  }
+}
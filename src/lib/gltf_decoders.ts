@@ -0,0 +1,14 @@
+import basisTranscoderJs from "three/addons/libs/basis/basis_transcoder.js?url&inline"
+import basisTranscoderWasm from "three/addons/libs/basis/basis_transcoder.wasm?url&inline"
+import dracoDecoderWasm from "three/addons/libs/draco/gltf/draco_decoder.wasm?url&inline"
+import dracoWrapperJs from "three/addons/libs/draco/gltf/draco_wasm_wrapper.js?url&inline"
+
+// Draco and Basis decoder libraries by the file names their loaders request,
+// inlined as data URLs so compressed models also load offline and from the
+// single-file build
+export const decoderFiles: Record<string, string> = {
+  "draco_wasm_wrapper.js": dracoWrapperJs,
+  "draco_decoder.wasm": dracoDecoderWasm,
+  "basis_transcoder.js": basisTranscoderJs,
+  "basis_transcoder.wasm": basisTranscoderWasm,
+}
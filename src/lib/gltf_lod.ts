@@ -0,0 +1,231 @@
+import {
+  type Document,
+  Extension,
+  ExtensionProperty,
+  type IProperty,
+  type Mesh,
+  type Node,
+  type Nullable,
+  PropertyType,
+  type ReaderContext,
+  RefList,
+  type WriterContext,
+} from "@gltf-transform/core"
+import { applyIndexedMesh, primitiveToIndexedMesh } from "./gltf_repair"
+import { type SimplifyOptions, simplifyIndexedMesh } from "./mesh_simplify"
+
+const MSFT_LOD = "MSFT_lod"
+
+interface ILod extends IProperty {
+  levels: RefList<Node>
+}
+
+interface LodDef {
+  ids: number[]
+}
+
+// Lower detail versions of a node, ordered from the highest detail down
+export class Lod extends ExtensionProperty<ILod> {
+  public static EXTENSION_NAME = MSFT_LOD
+  declare public extensionName: typeof MSFT_LOD
+  declare public propertyType: "Lod"
+  declare public parentTypes: [PropertyType.NODE]
+
+  protected init(): void {
+    this.extensionName = MSFT_LOD
+    this.propertyType = "Lod"
+    this.parentTypes = [PropertyType.NODE]
+  }
+
+  protected getDefaults(): Nullable<ILod> {
+    return Object.assign(super.getDefaults() as IProperty, {
+      levels: new RefList<Node>(),
+    })
+  }
+
+  public listLevels(): Node[] {
+    return this.listRefs("levels")
+  }
+
+  public addLevel(node: Node): this {
+    return this.addRef("levels", node)
+  }
+
+  public removeLevel(node: Node): this {
+    return this.removeRef("levels", node)
+  }
+}
+
+export class MSFTLod extends Extension {
+  public static readonly EXTENSION_NAME = MSFT_LOD
+  public readonly extensionName = MSFT_LOD
+
+  public createLod(): Lod {
+    return new Lod(this.document.getGraph())
+  }
+
+  public read(context: ReaderContext): this {
+    const nodeDefs = context.jsonDoc.json.nodes ?? []
+
+    nodeDefs.forEach((nodeDef, nodeIndex) => {
+      const lodDef = nodeDef.extensions?.[MSFT_LOD] as LodDef | undefined
+      if (!lodDef) return
+
+      const lod = this.createLod()
+      for (const id of lodDef.ids) lod.addLevel(context.nodes[id])
+      context.nodes[nodeIndex].setExtension(MSFT_LOD, lod)
+    })
+
+    return this
+  }
+
+  public write(context: WriterContext): this {
+    const nodeDefs = context.jsonDoc.json.nodes ?? []
+
+    for (const node of this.document.getRoot().listNodes()) {
+      const lod = node.getExtension<Lod>(MSFT_LOD)
+      const nodeIndex = context.nodeIndexMap.get(node)
+      if (!lod || nodeIndex === undefined) continue
+
+      const ids = lod
+        .listLevels()
+        .map((level) => context.nodeIndexMap.get(level))
+        .filter((id) => id !== undefined)
+      if (ids.length === 0) continue
+
+      const nodeDef = nodeDefs[nodeIndex]
+      nodeDef.extensions = nodeDef.extensions ?? {}
+      nodeDef.extensions[MSFT_LOD] = { ids } satisfies LodDef
+    }
+
+    return this
+  }
+}
+
+export interface LodOptions extends Omit<SimplifyOptions, "targetFaces"> {
+  // Skip meshes whose base level has fewer faces than this
+  minFaces?: number
+}
+
+export interface LodResults {
+  nodes: number
+  // Face count of every level, starting with the original meshes
+  faces: number[]
+}
+
+// Adds one MSFT_lod level per ratio to every mesh node in the scenes. Levels
+// are kept out of the scene graph, so viewers without MSFT_lod support only
+// show the original meshes
+export function addLodLevels(
+  document: Document,
+  ratios: number[],
+  options: LodOptions = {},
+): LodResults {
+  const { minFaces = 0, ...simplifyOptions } = options
+  const results: LodResults = {
+    nodes: 0,
+    faces: Array(ratios.length + 1).fill(0),
+  }
+  if (ratios.length === 0) return results
+
+  const extension = document.createExtension(MSFTLod)
+  const levelMeshes = new Map<Mesh, Mesh[]>()
+  const nodes = new Set<Node>()
+
+  for (const scene of document.getRoot().listScenes()) {
+    scene.traverse((node) => {
+      if (node.getMesh() && !node.getExtension(MSFT_LOD)) nodes.add(node)
+    })
+  }
+
+  for (const node of nodes) {
+    const mesh = node.getMesh()
+    if (!mesh) continue
+
+    const baseFaces = countFaces(mesh)
+    if (baseFaces < minFaces) continue
+
+    // Instances of a mesh share its levels
+    let levels = levelMeshes.get(mesh)
+    if (!levels) {
+      levels = ratios.map((ratio, i) =>
+        simplifyMesh(document, mesh, `${mesh.getName()}_LOD${i + 1}`, {
+          ...simplifyOptions,
+          targetRatio: ratio,
+        }),
+      )
+      levelMeshes.set(mesh, levels)
+    }
+
+    const lod = extension.createLod()
+    levels.forEach((level, i) => {
+      const levelNode = document
+        .createNode(`${node.getName()}_LOD${i + 1}`)
+        .setMesh(level)
+        .setTranslation(node.getTranslation())
+        .setRotation(node.getRotation())
+        .setScale(node.getScale())
+        .setSkin(node.getSkin())
+      lod.addLevel(levelNode)
+      results.faces[i + 1] += countFaces(level)
+    })
+    node.setExtension(MSFT_LOD, lod)
+
+    results.nodes++
+    results.faces[0] += baseFaces
+  }
+
+  if (results.nodes === 0) extension.dispose()
+  return results
+}
+
+// Parses a comma-separated list of ratios between 0 and 1, returning null when
+// any of them is invalid
+export function parseLodRatios(value: string): number[] | null {
+  const ratios = value.split(",").filter(Boolean).map(Number)
+  return ratios.every((ratio) => ratio > 0 && ratio < 1) ? ratios : null
+}
+
+function simplifyMesh(
+  document: Document,
+  mesh: Mesh,
+  name: string,
+  options: SimplifyOptions,
+): Mesh {
+  const level = document.createMesh(name).setWeights(mesh.getWeights())
+
+  for (const primitive of mesh.listPrimitives()) {
+    // Morph targets are cloned too, since rewriting their attributes would
+    // otherwise change the original primitive
+    const copy = primitive.clone()
+    for (const target of copy.listTargets()) {
+      copy.removeTarget(target)
+      copy.addTarget(target.clone())
+    }
+
+    const source = primitiveToIndexedMesh(copy)
+    if (source) {
+      const result = simplifyIndexedMesh(source.mesh, options)
+      if (result.mesh.indices.length === 0) {
+        copy.dispose()
+        continue
+      }
+      applyIndexedMesh(copy, source.streams, result)
+    }
+    level.addPrimitive(copy)
+  }
+
+  return level
+}
+
+function countFaces(mesh: Mesh): number {
+  let faces = 0
+  for (const primitive of mesh.listPrimitives()) {
+    const count =
+      primitive.getIndices()?.getCount() ??
+      primitive.getAttribute("POSITION")?.getCount() ??
+      0
+    faces += Math.floor(count / 3)
+  }
+  return faces
+}
@@ -0,0 +1,236 @@
+import {
+  type Accessor,
+  type Document,
+  Primitive,
+  type PrimitiveTarget,
+  type TypedArray,
+} from "@gltf-transform/core"
+import {
+  type AttributeArray,
+  addRepairs,
+  emptyRepairs,
+  type IndexedMesh,
+  type IndexedMeshRepair,
+  type MeshAttribute,
+  type MeshRepairOptions,
+  type MeshRepairResults,
+  repairIndexedMesh,
+} from "./geometry_fix_core"
+
+export interface GltfRepairResults extends MeshRepairResults {
+  primitives: number
+  skippedPrimitives: number
+  removedPrimitives: number
+}
+
+export interface VertexStream {
+  owner: Primitive | PrimitiveTarget
+  semantic: string
+  accessor: Accessor
+}
+
+export function repairDocument(
+  document: Document,
+  options: MeshRepairOptions = {},
+): GltfRepairResults {
+  const results: GltfRepairResults = {
+    repairs: emptyRepairs(),
+    primitives: 0,
+    skippedPrimitives: 0,
+    removedPrimitives: 0,
+  }
+  const replaced = new Set<Accessor>()
+
+  for (const mesh of document.getRoot().listMeshes()) {
+    for (const primitive of mesh.listPrimitives()) {
+      const repair = repairPrimitive(primitive, options, replaced)
+      if (!repair) {
+        results.skippedPrimitives++
+        continue
+      }
+
+      results.primitives++
+      addRepairs(results.repairs, repair.repairs)
+
+      // glTF does not allow empty primitives or meshes without primitives
+      if (primitive.getIndices()?.getCount() === 0) {
+        primitive.dispose()
+        results.removedPrimitives++
+      }
+    }
+
+    if (mesh.listPrimitives().length === 0) mesh.dispose()
+  }
+
+  // Accessors may be shared between primitives, so only drop them once unused
+  for (const accessor of replaced) {
+    const inUse = accessor
+      .listParents()
+      .some((parent) => parent.propertyType !== "Root")
+    if (!inUse) accessor.dispose()
+  }
+
+  return results
+}
+
+export function repairPrimitive(
+  primitive: Primitive,
+  options: MeshRepairOptions = {},
+  replaced: Set<Accessor> = new Set(),
+): MeshRepairResults | null {
+  const source = primitiveToIndexedMesh(primitive)
+  if (!source) return null
+
+  const result = repairIndexedMesh(source.mesh, options)
+  const changed = Object.values(result.repairs).some((count) => count > 0)
+  if (changed) applyIndexedMesh(primitive, source.streams, result, replaced)
+
+  return { repairs: result.repairs }
+}
+
+export function primitiveToIndexedMesh(
+  primitive: Primitive,
+): { mesh: IndexedMesh; streams: VertexStream[] } | null {
+  const position = primitive.getAttribute("POSITION")
+  if (!position || primitive.getMode() !== Primitive.Mode.TRIANGLES) {
+    return null
+  }
+
+  const vertexCount = position.getCount()
+  const normal = primitive.getAttribute("NORMAL")
+  const targets = primitive.listTargets()
+  const streams = listVertexStreams(primitive)
+  const indices = primitive.getIndices()?.getArray()
+
+  // Everything except POSITION and NORMAL, including morph targets, is carried
+  // as raw components so quantized data keeps its encoding
+  const attributes: MeshAttribute[] = streams
+    .filter(
+      ({ owner, semantic }) =>
+        owner !== primitive ||
+        (semantic !== "POSITION" && semantic !== "NORMAL"),
+    )
+    .map(({ owner, semantic, accessor }) => ({
+      name: semantic,
+      array: accessor.getArray() as AttributeArray,
+      itemSize: accessor.getElementSize(),
+      normalized: accessor.getNormalized(),
+      target:
+        owner === primitive
+          ? undefined
+          : targets.indexOf(owner as PrimitiveTarget),
+    }))
+
+  return {
+    mesh: {
+      positions: readFloats(position),
+      normals: normal ? readFloats(normal) : null,
+      indices: indices
+        ? Uint32Array.from(indices)
+        : Uint32Array.from({ length: vertexCount }, (_, i) => i),
+      attributes,
+      corners: null,
+    },
+    streams,
+  }
+}
+
+export function applyIndexedMesh(
+  primitive: Primitive,
+  streams: VertexStream[],
+  { mesh, vertexMap, repairs }: IndexedMeshRepair,
+  replaced: Set<Accessor> = new Set(),
+): void {
+  const position = primitive.getAttribute("POSITION")
+  if (!position) return
+
+  // Reoriented faces have their normals turned along with their winding
+  const normals =
+    (repairs.recalculateNormals > 0 || repairs.orientFaces > 0) && mesh.normals
+      ? Float32Array.from(mesh.normals)
+      : null
+
+  for (const { owner, semantic, accessor } of streams) {
+    const isNormal = owner === primitive && semantic === "NORMAL"
+    const array = normals && isNormal ? normals : compact(accessor, vertexMap)
+
+    const copy = accessor.clone().setArray(array)
+    if (array === normals) copy.setNormalized(false).setSparse(false)
+    owner.setAttribute(semantic, copy)
+    replaced.add(accessor)
+  }
+
+  if (normals && !primitive.getAttribute("NORMAL")) {
+    primitive.setAttribute(
+      "NORMAL",
+      position.clone().setNormalized(false).setSparse(false).setArray(normals),
+    )
+  }
+
+  const indices =
+    vertexMap.length > 65535
+      ? Uint32Array.from(mesh.indices)
+      : Uint16Array.from(mesh.indices)
+  const indexAccessor = primitive.getIndices()
+
+  if (indexAccessor) {
+    primitive.setIndices(indexAccessor.clone().setArray(indices))
+    replaced.add(indexAccessor)
+  } else {
+    primitive.setIndices(
+      position
+        .clone()
+        .setType("SCALAR")
+        .setNormalized(false)
+        .setSparse(false)
+        .setArray(indices),
+    )
+  }
+}
+
+function compact(accessor: Accessor, vertexMap: Uint32Array): TypedArray {
+  // Repairs never move vertices, so source components are copied unchanged
+  const source = accessor.getArray() as TypedArray
+  const size = accessor.getElementSize()
+  const ArrayType = source.constructor as new (length: number) => TypedArray
+  const target = new ArrayType(vertexMap.length * size)
+
+  vertexMap.forEach((oldIndex, newIndex) => {
+    target.set(
+      source.subarray(oldIndex * size, oldIndex * size + size),
+      newIndex * size,
+    )
+  })
+  return target
+}
+
+function listVertexStreams(primitive: Primitive): VertexStream[] {
+  const streams: VertexStream[] = []
+  const owners: (Primitive | PrimitiveTarget)[] = [
+    primitive,
+    ...primitive.listTargets(),
+  ]
+
+  for (const owner of owners) {
+    for (const semantic of owner.listSemantics()) {
+      const accessor = owner.getAttribute(semantic)
+      if (accessor) streams.push({ owner, semantic, accessor })
+    }
+  }
+  return streams
+}
+
+function readFloats(accessor: Accessor): Float32Array {
+  const array = accessor.getArray()
+  if (array instanceof Float32Array && !accessor.getNormalized()) return array
+
+  // Quantized or normalized data is decoded the same way the viewer does
+  const count = accessor.getCount()
+  const values = new Float32Array(count * accessor.getElementSize())
+  const element: number[] = []
+  for (let i = 0; i < count; i++) {
+    accessor.getElement(i, element)
+    values.set(element, i * element.length)
+  }
+  return values
+}
@@ -0,0 +1,202 @@
+import * as THREE from "three"
+import type { MeshIssues } from "./geometry_fix"
+
+export const issueTypes = [
+  "boundaryEdges",
+  "nonManifoldEdges",
+  "nonManifoldVertices",
+  "duplicateVertices",
+  "degenerateFaces",
+] as const
+
+export type IssueType = (typeof issueTypes)[number]
+
+export const issueColors: Record<IssueType, number> = {
+  boundaryEdges: 0x30a0ff,
+  nonManifoldEdges: 0xff3030,
+  nonManifoldVertices: 0xff30ff,
+  duplicateVertices: 0xffd030,
+  degenerateFaces: 0xff8020,
+}
+
+// A connected cluster of issues of one type, with an invisible object spanning
+// it that the camera can be focused on
+export interface IssueArea {
+  type: IssueType
+  meshName: string
+  elements: number
+  target: THREE.Object3D
+}
+
+export interface IssueOverlay {
+  group: THREE.Group
+  layers: Record<IssueType, THREE.Group>
+  areas: IssueArea[]
+}
+
+export function createIssueOverlay(
+  meshIssues: MeshIssues[],
+  maxAreasPerMesh: number = 10,
+): IssueOverlay {
+  const group = new THREE.Group()
+  group.name = "IssueOverlay"
+  const layers = {} as Record<IssueType, THREE.Group>
+  const areas: IssueArea[] = []
+
+  for (const type of issueTypes) {
+    layers[type] = new THREE.Group()
+    layers[type].name = type
+    group.add(layers[type])
+  }
+
+  for (const { mesh, name, issues } of meshIssues) {
+    const geometry = mesh.geometry
+    const position = geometry.getAttribute("position")
+    mesh.updateWorldMatrix(true, false)
+
+    if (!geometry.boundingBox) geometry.computeBoundingBox()
+    const size = geometry.boundingBox?.getSize(new THREE.Vector3()).length()
+    const margin = (size || 1) * 0.02
+
+    for (const type of issueTypes) {
+      const elements = issueElements(type, issues, geometry.index)
+      if (elements.length === 0) continue
+
+      const material = { color: issueColors[type], depthTest: false }
+      const vertices = elements.flat()
+      const parts: THREE.Object3D[] = [
+        new THREE.Points(
+          positionGeometry(position, vertices),
+          new THREE.PointsMaterial({
+            ...material,
+            size: 6,
+            sizeAttenuation: false,
+          }),
+        ),
+      ]
+      if (elements[0].length > 1) {
+        parts.push(
+          new THREE.LineSegments(
+            positionGeometry(position, elements.flatMap(elementEdges)),
+            new THREE.LineBasicMaterial(material),
+          ),
+        )
+      }
+
+      for (const part of parts) {
+        part.name = `${name}_${type}`
+        part.renderOrder = 999
+        part.matrixAutoUpdate = false
+        part.matrix.copy(mesh.matrixWorld)
+        layers[type].add(part)
+      }
+
+      for (const cluster of clusterElements(position, elements).slice(
+        0,
+        maxAreasPerMesh,
+      )) {
+        const target = new THREE.Points(
+          positionGeometry(position, cluster.flat()),
+        )
+        target.geometry.computeBoundingBox()
+        target.geometry.boundingBox?.expandByScalar(margin)
+        target.visible = false
+        target.matrixAutoUpdate = false
+        target.matrix.copy(mesh.matrixWorld)
+
+        areas.push({ type, meshName: name, elements: cluster.length, target })
+      }
+    }
+  }
+
+  return { group, layers, areas }
+}
+
+function issueElements(
+  type: IssueType,
+  issues: MeshIssues["issues"],
+  index: THREE.BufferAttribute | null,
+): number[][] {
+  const list = issues[type]
+
+  switch (type) {
+    case "boundaryEdges":
+    case "nonManifoldEdges":
+      return Array.from({ length: list.length / 2 }, (_, i) => [
+        list[i * 2],
+        list[i * 2 + 1],
+      ])
+    case "degenerateFaces":
+      return list.map((face) =>
+        [0, 1, 2].map((j) => (index ? index.getX(face * 3 + j) : face * 3 + j)),
+      )
+    default:
+      return list.map((vertex) => [vertex])
+  }
+}
+
+function elementEdges(element: number[]): number[] {
+  if (element.length === 2) return element
+  const [a, b, c] = element
+  return [a, b, b, c, c, a]
+}
+
+// Elements touching at a vertex position belong to the same area, largest first
+function clusterElements(
+  position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  elements: number[][],
+): number[][][] {
+  const parent = elements.map((_, i) => i)
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]]
+      i = parent[i]
+    }
+    return i
+  }
+
+  const owners = new Map<string, number>()
+  elements.forEach((element, i) => {
+    for (const vertex of element) {
+      const key = [
+        position.getX(vertex),
+        position.getY(vertex),
+        position.getZ(vertex),
+      ]
+        .map((value) => Math.round(value * 1e6))
+        .join(",")
+      const owner = owners.get(key)
+      if (owner === undefined) {
+        owners.set(key, i)
+      } else {
+        parent[find(i)] = find(owner)
+      }
+    }
+  })
+
+  const clusters = new Map<number, number[][]>()
+  elements.forEach((element, i) => {
+    const root = find(i)
+    const cluster = clusters.get(root)
+    if (cluster) cluster.push(element)
+    else clusters.set(root, [element])
+  })
+
+  return Array.from(clusters.values()).sort((a, b) => b.length - a.length)
+}
+
+function positionGeometry(
+  position: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+  vertices: number[],
+): THREE.BufferGeometry {
+  const positions = new Float32Array(vertices.length * 3)
+  vertices.forEach((vertex, i) => {
+    positions[i * 3] = position.getX(vertex)
+    positions[i * 3 + 1] = position.getY(vertex)
+    positions[i * 3 + 2] = position.getZ(vertex)
+  })
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+  return geometry
+}
@@ -0,0 +1,555 @@
+import * as THREE from "three"
+import { acceleratedRaycast, MeshBVH } from "three-mesh-bvh"
+import { makeTextSprite } from "./text_sprite"
+
+THREE.Mesh.prototype.raycast = acceleratedRaycast
+
+export const measurementTools = ["distance", "angle", "radius", "area"] as const
+
+export type MeasurementTool = (typeof measurementTools)[number]
+
+// Points picked before a measurement of each tool is complete. Area and
+// volume are measured on the whole mesh under the cursor
+const toolPoints: Record<MeasurementTool, number> = {
+  distance: 2,
+  angle: 3,
+  radius: 3,
+  area: 1,
+}
+
+export type SnapKind = "vertex" | "edge" | "face"
+
+const snapColors: Record<SnapKind, number> = {
+  vertex: 0xffd030,
+  edge: 0x30d0ff,
+  face: 0xffffff,
+}
+
+const annotationColor = 0xffd030
+
+// A picked point, stored in the local space of the mesh it was picked on so
+// annotations follow the model when it is moved
+export interface MeasurementAnchor {
+  mesh: THREE.Mesh
+  local: THREE.Vector3
+}
+
+export interface SnapResult {
+  anchor: MeasurementAnchor
+  point: THREE.Vector3
+  kind: SnapKind
+}
+
+// Formats a world space length (power 1), area (2) or volume (3) measured on
+// the given object
+export type LengthFormatter = (
+  value: number,
+  object: THREE.Object3D,
+  power: number,
+) => string
+
+// World space area and volume of a mesh, with the geometry and the linear
+// part of the world transform they were computed with
+interface MeasuredAreaVolume {
+  area: number
+  volume: number
+  geometry: THREE.BufferGeometry
+  linear: THREE.Matrix3
+}
+
+export interface Measurement {
+  tool: MeasurementTool
+  anchors: MeasurementAnchor[]
+  // Area and volume of the mesh of an area measurement. They go through
+  // every face, so they are only recomputed once the mesh is rescaled,
+  // rotated or repaired
+  areaVolume: MeasuredAreaVolume | null
+  text: string
+  object: THREE.Group
+  line: THREE.Line
+  label: THREE.Sprite
+}
+
+// Interactive distance, angle, radius and area/volume measurements, labelled
+// with the units chosen by the formatter
+export class Measurements {
+  public readonly group = new THREE.Group()
+  public readonly items: Measurement[] = []
+  public tool: MeasurementTool | null = null
+  public snapping = true
+  // Hits on the clipped side of any of these planes are ignored
+  public clippingPlanes: THREE.Plane[] = []
+  private pending: MeasurementAnchor[] = []
+  private marker: THREE.Points
+  private pendingLine: THREE.Line
+  private formatLength: LengthFormatter
+
+  constructor(formatLength: LengthFormatter) {
+    this.formatLength = formatLength
+    this.group.name = "Measurements"
+
+    this.marker = new THREE.Points(
+      new THREE.BufferGeometry().setFromPoints([new THREE.Vector3()]),
+      new THREE.PointsMaterial({
+        size: 8,
+        sizeAttenuation: false,
+        depthTest: false,
+      }),
+    )
+    this.marker.renderOrder = 1000
+    this.marker.visible = false
+
+    this.pendingLine = createLine(annotationColor)
+    this.pendingLine.visible = false
+
+    this.group.add(this.marker, this.pendingLine)
+  }
+
+  public get pendingPoints(): number {
+    return this.pending.length
+  }
+
+  public setTool(tool: MeasurementTool | null): void {
+    this.tool = tool
+    this.cancel()
+  }
+
+  public cancel(): void {
+    this.pending = []
+    this.marker.visible = false
+    this.pendingLine.visible = false
+  }
+
+  // Snaps the first visible hit to the nearest vertex or edge within
+  // snapPixels on screen
+  public pick(
+    raycaster: THREE.Raycaster,
+    root: THREE.Object3D,
+    viewportHeight: number,
+    snapPixels: number = 10,
+  ): SnapResult | null {
+    prepareBoundsTrees(root)
+    const hit = raycaster
+      .intersectObject(root, true)
+      .find(
+        (intersection) =>
+          intersection.object instanceof THREE.Mesh &&
+          intersection.face &&
+          isVisible(intersection.object) &&
+          this.clippingPlanes.every(
+            (plane) => plane.distanceToPoint(intersection.point) >= 0,
+          ),
+      )
+    if (!hit) return null
+
+    const threshold = this.snapping
+      ? worldPixelSize(raycaster.camera, hit.point, viewportHeight) * snapPixels
+      : 0
+    return snapIntersection(hit, threshold)
+  }
+
+  public hover(snap: SnapResult | null): void {
+    this.marker.visible = snap !== null && this.tool !== null
+    if (!snap || !this.tool) return
+
+    this.marker.position.copy(snap.point)
+    ;(this.marker.material as THREE.PointsMaterial).color.set(
+      snapColors[snap.kind],
+    )
+
+    if (this.pending.length > 0 && this.tool !== "area") {
+      const points = [...this.pending.map(anchorPoint), snap.point]
+      setLinePoints(this.pendingLine, points)
+      this.pendingLine.visible = true
+    }
+  }
+
+  // Adds the picked point and returns the measurement once the tool has all
+  // the points it needs
+  public addPoint(snap: SnapResult): Measurement | null {
+    if (!this.tool) return null
+
+    this.pending.push(snap.anchor)
+    if (this.pending.length < toolPoints[this.tool]) return null
+
+    const measurement = this.create(this.tool, this.pending)
+    this.cancel()
+    return measurement
+  }
+
+  public remove(measurement: Measurement): void {
+    const index = this.items.indexOf(measurement)
+    if (index < 0) return
+    this.items.splice(index, 1)
+    this.group.remove(measurement.object)
+    disposeObject(measurement.object)
+  }
+
+  // Drops the measurements taken on meshes that are no longer in the root
+  public prune(root: THREE.Object3D): void {
+    for (const measurement of [...this.items]) {
+      if (measurement.anchors.some(({ mesh }) => !isDescendant(mesh, root))) {
+        this.remove(measurement)
+      }
+    }
+  }
+
+  public clear(): void {
+    for (const measurement of [...this.items]) this.remove(measurement)
+    this.cancel()
+  }
+
+  // Moves the annotations with their meshes and refreshes their values
+  public update(): void {
+    for (const measurement of this.items) {
+      const { text, linePoints, labelPosition } = this.evaluate(measurement)
+      setLinePoints(measurement.line, linePoints)
+      measurement.label.position.copy(labelPosition)
+
+      if (text !== measurement.text) {
+        measurement.text = text
+        measurement.object.remove(measurement.label)
+        disposeObject(measurement.label)
+        measurement.label = makeTextSprite(text)
+        measurement.label.position.copy(labelPosition)
+        measurement.object.add(measurement.label)
+      }
+    }
+  }
+
+  // SVG lines and labels of the annotations, using the same projection as the
+  // rest of the exported drawing
+  public toSvg(project: (point: THREE.Vector3) => THREE.Vector2): string {
+    const color = `#${new THREE.Color(annotationColor).getHexString()}`
+    return this.items
+      .map(({ line, label, text }) => {
+        const position = line.geometry.getAttribute("position")
+        const points = Array.from({ length: position.count }, (_, i) =>
+          project(new THREE.Vector3().fromBufferAttribute(position, i)),
+        )
+        const anchor = project(label.position)
+        const path = points.map(({ x, y }) => `${x},${y}`).join(" ")
+        return [
+          `<polyline points="${path}" fill="none" stroke="${color}" stroke-width="1"/>`,
+          `<text x="${anchor.x}" y="${anchor.y}" fill="${color}" font-family="Arial" font-size="12" text-anchor="middle">${text}</text>`,
+        ].join("\n")
+      })
+      .join("\n")
+  }
+
+  public dispose(): void {
+    this.clear()
+    disposeObject(this.group)
+  }
+
+  private create(
+    tool: MeasurementTool,
+    anchors: MeasurementAnchor[],
+  ): Measurement {
+    const evaluated: Pick<Measurement, "tool" | "anchors" | "areaVolume"> = {
+      tool,
+      anchors,
+      areaVolume: null,
+    }
+    const { text, linePoints, labelPosition } = this.evaluate(evaluated)
+
+    const line = createLine(annotationColor)
+    setLinePoints(line, linePoints)
+    const label = makeTextSprite(text)
+    label.position.copy(labelPosition)
+
+    const object = new THREE.Group()
+    object.name = `${tool} ${text}`
+    object.add(line, label)
+    this.group.add(object)
+
+    const measurement = {
+      tool,
+      anchors: [...anchors],
+      areaVolume: evaluated.areaVolume,
+      text,
+      object,
+      line,
+      label,
+    }
+    this.items.push(measurement)
+    return measurement
+  }
+
+  // Also refreshes the cached area and volume of the measurement
+  private evaluate(
+    measurement: Pick<Measurement, "tool" | "anchors" | "areaVolume">,
+  ): {
+    text: string
+    linePoints: THREE.Vector3[]
+    labelPosition: THREE.Vector3
+  } {
+    const { tool, anchors } = measurement
+    const points = anchors.map(anchorPoint)
+    const format = (value: number, power: number = 1) =>
+      this.formatLength(value, anchors[0].mesh, power)
+
+    switch (tool) {
+      case "distance": {
+        const [a, b] = points
+        return {
+          text: format(a.distanceTo(b)),
+          linePoints: [a, b],
+          labelPosition: a.clone().lerp(b, 0.5),
+        }
+      }
+      case "angle": {
+        const [a, vertex, c] = points
+        const angle = a.clone().sub(vertex).angleTo(c.clone().sub(vertex))
+        return {
+          text: `${THREE.MathUtils.radToDeg(angle).toFixed(1)}°`,
+          linePoints: [a, vertex, c],
+          labelPosition: vertex,
+        }
+      }
+      case "radius": {
+        const circle = circleThroughPoints(points)
+        if (!circle) {
+          return {
+            text: "collinear",
+            linePoints: points,
+            labelPosition: points[1],
+          }
+        }
+        return {
+          text: `R ${format(circle.radius)} Ø ${format(circle.radius * 2)}`,
+          linePoints: circle.points,
+          labelPosition: circle.center,
+        }
+      }
+      case "area": {
+        const mesh = anchors[0].mesh
+        const box = new THREE.Box3().setFromObject(mesh)
+        measurement.areaVolume = measureAreaVolume(mesh, measurement.areaVolume)
+        const { area, volume } = measurement.areaVolume
+        return {
+          text: `A ${format(area, 2)} V ${format(volume, 3)}`,
+          linePoints: boxOutline(box),
+          labelPosition: box.getCenter(new THREE.Vector3()),
+        }
+      }
+    }
+  }
+}
+
+export function snapIntersection(
+  hit: THREE.Intersection,
+  threshold: number,
+): SnapResult | null {
+  const mesh = hit.object
+  if (!(mesh instanceof THREE.Mesh) || !hit.face) return null
+
+  const { a, b, c } = hit.face
+  const corners = [a, b, c].map((vertex) =>
+    mesh.localToWorld(mesh.getVertexPosition(vertex, new THREE.Vector3())),
+  )
+
+  let point = hit.point.clone()
+  let kind: SnapKind = "face"
+  let nearest = threshold
+
+  for (const corner of corners) {
+    const distance = corner.distanceTo(hit.point)
+    if (distance <= nearest) {
+      point = corner
+      kind = "vertex"
+      nearest = distance
+    }
+  }
+
+  if (kind === "face") {
+    const edge = new THREE.Line3()
+    const closest = new THREE.Vector3()
+    corners.forEach((corner, i) => {
+      edge.set(corner, corners[(i + 1) % 3])
+      edge.closestPointToPoint(hit.point, true, closest)
+      const distance = closest.distanceTo(hit.point)
+      if (distance <= nearest) {
+        point = closest.clone()
+        kind = "edge"
+        nearest = distance
+      }
+    })
+  }
+
+  return {
+    anchor: { mesh, local: mesh.worldToLocal(point.clone()) },
+    point,
+    kind,
+  }
+}
+
+// Reuses the cached area and volume while they still describe the mesh.
+// Translations leave both unchanged, so moving the mesh never remeasures it
+function measureAreaVolume(
+  mesh: THREE.Mesh,
+  cached: MeasuredAreaVolume | null,
+): MeasuredAreaVolume {
+  mesh.updateWorldMatrix(true, false)
+  const linear = new THREE.Matrix3().setFromMatrix4(mesh.matrixWorld)
+  if (cached?.geometry === mesh.geometry && cached.linear.equals(linear)) {
+    return cached
+  }
+  return { ...meshAreaAndVolume(mesh), geometry: mesh.geometry, linear }
+}
+
+// Surface area and enclosed volume of a mesh in world units. The volume is
+// only meaningful for closed meshes
+export function meshAreaAndVolume(mesh: THREE.Mesh): {
+  area: number
+  volume: number
+} {
+  const geometry = mesh.geometry
+  const index = geometry.index
+  const count = index ? index.count : geometry.getAttribute("position").count
+  const [a, b, c] = [0, 1, 2].map(() => new THREE.Vector3())
+  const cross = new THREE.Vector3()
+  mesh.updateWorldMatrix(true, false)
+
+  let area = 0
+  let volume = 0
+  for (let i = 0; i + 2 < count; i += 3) {
+    ;[a, b, c].forEach((vertex, j) => {
+      mesh.getVertexPosition(index ? index.getX(i + j) : i + j, vertex)
+      vertex.applyMatrix4(mesh.matrixWorld)
+    })
+    cross.subVectors(b, a).cross(c.clone().sub(a))
+    area += cross.length() / 2
+    volume += a.dot(b.clone().cross(c)) / 6
+  }
+
+  return { area, volume: Math.abs(volume) }
+}
+
+// The circumscribed circle of three points, as a closed polyline
+function circleThroughPoints(
+  [a, b, c]: THREE.Vector3[],
+  segments: number = 64,
+): { center: THREE.Vector3; radius: number; points: THREE.Vector3[] } | null {
+  const ab = b.clone().sub(a)
+  const ac = c.clone().sub(a)
+  const normal = ab.clone().cross(ac)
+  const lengthSq = normal.lengthSq()
+  if (lengthSq < 1e-20) return null
+
+  // Circumcenter relative to a
+  const offset = normal
+    .clone()
+    .cross(ab)
+    .multiplyScalar(ac.lengthSq())
+    .add(ac.clone().cross(normal).multiplyScalar(ab.lengthSq()))
+    .divideScalar(2 * lengthSq)
+  const center = a.clone().add(offset)
+  const radius = offset.length()
+
+  const u = a.clone().sub(center).normalize()
+  const v = normal.normalize().cross(u)
+  const points = Array.from({ length: segments + 1 }, (_, i) => {
+    const angle = (i / segments) * Math.PI * 2
+    return center
+      .clone()
+      .addScaledVector(u, Math.cos(angle) * radius)
+      .addScaledVector(v, Math.sin(angle) * radius)
+  })
+  return { center, radius, points }
+}
+
+function boxOutline({ min, max }: THREE.Box3): THREE.Vector3[] {
+  return [
+    [min.x, min.y, min.z],
+    [max.x, min.y, min.z],
+    [max.x, min.y, max.z],
+    [min.x, min.y, max.z],
+    [min.x, min.y, min.z],
+  ].map(([x, y, z]) => new THREE.Vector3(x, y, z))
+}
+
+function anchorPoint({ mesh, local }: MeasurementAnchor): THREE.Vector3 {
+  return mesh.localToWorld(local.clone())
+}
+
+// Size of a screen pixel at the given point, in world units
+function worldPixelSize(
+  camera: THREE.Camera,
+  point: THREE.Vector3,
+  viewportHeight: number,
+): number {
+  if (camera instanceof THREE.OrthographicCamera) {
+    return (camera.top - camera.bottom) / camera.zoom / viewportHeight
+  }
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const distance = camera.position.distanceTo(point)
+    const height =
+      2 * distance * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2))
+    return height / camera.zoom / viewportHeight
+  }
+  return 0
+}
+
+// Static meshes get a BVH for fast picking. Skinned and morphed meshes keep
+// the default raycast, which follows their current pose
+function prepareBoundsTrees(root: THREE.Object3D): void {
+  root.traverse((child) => {
+    if (
+      !(child instanceof THREE.Mesh) ||
+      child instanceof THREE.SkinnedMesh ||
+      child.morphTargetInfluences?.length ||
+      child.geometry.boundsTree
+    ) {
+      return
+    }
+    child.geometry.boundsTree = new MeshBVH(child.geometry)
+  })
+}
+
+function isVisible(object: THREE.Object3D): boolean {
+  for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+    if (!node.visible) return false
+  }
+  return true
+}
+
+function isDescendant(object: THREE.Object3D, root: THREE.Object3D): boolean {
+  for (let node: THREE.Object3D | null = object; node; node = node.parent) {
+    if (node === root) return true
+  }
+  return false
+}
+
+function createLine(color: number): THREE.Line {
+  const line = new THREE.Line(
+    new THREE.BufferGeometry(),
+    new THREE.LineBasicMaterial({ color, depthTest: false }),
+  )
+  line.renderOrder = 999
+  line.frustumCulled = false
+  return line
+}
+
+// Geometry buffers cannot grow, so a line whose point count changes gets a
+// new geometry
+function setLinePoints(line: THREE.Line, points: THREE.Vector3[]): void {
+  if (line.geometry.getAttribute("position")?.count !== points.length) {
+    line.geometry.dispose()
+    line.geometry = new THREE.BufferGeometry()
+  }
+  line.geometry.setFromPoints(points)
+}
+
+// Sprites share one geometry, so only their materials are disposed
+function disposeObject(object: THREE.Object3D): void {
+  object.traverse((child) => {
+    if (child instanceof THREE.Sprite) {
+      child.material.map?.dispose()
+      child.material.dispose()
+    } else if (child instanceof THREE.Line || child instanceof THREE.Points) {
+      child.geometry.dispose()
+      child.material.dispose()
+    }
+  })
+}
@@ -0,0 +1,544 @@
+import {
+  compactArray,
+  type IndexedMesh,
+  type IndexedMeshRepair,
+  repairIndexedMesh,
+  repairOperations,
+  weldVertices,
+} from "./geometry_fix_core"
+
+export interface SimplifyOptions {
+  // Fraction of the faces to keep, used when targetFaces is not given
+  targetRatio?: number
+  targetFaces?: number
+  // Largest allowed RMS distance to the original surface, in model units
+  maxError?: number
+  // Dihedral angle in degrees above which an edge is kept as a crease
+  sharpAngle?: number
+  mergeTolerance?: number
+  onProgress?: (percent: number, operation: string) => void
+}
+
+// Ten coefficients of the symmetric 4x4 plane quadric, followed by the summed
+// weight so errors can be reported as mean squared distances
+const quadricSize = 11
+const boundaryWeight = 10
+
+export function simplifyIndexedMesh(
+  mesh: IndexedMesh,
+  options: SimplifyOptions = {},
+): IndexedMeshRepair {
+  // Exact duplicates are welded first so that only real attribute seams,
+  // which are never collapsed, keep vertices apart
+  const welded = repairIndexedMesh(mesh, {
+    mergeTolerance: options.mergeTolerance,
+    skipOperations: repairOperations.filter(
+      (operation) => operation !== "mergeVertices",
+    ),
+  })
+  const simplified = collapseEdges(welded.mesh, options)
+
+  return {
+    mesh: simplified.mesh,
+    vertexMap: simplified.vertexMap.map((index) => welded.vertexMap[index]),
+    repairs: simplified.repairs,
+  }
+}
+
+function collapseEdges(
+  mesh: IndexedMesh,
+  options: SimplifyOptions,
+): IndexedMeshRepair {
+  const {
+    targetRatio = 0.5,
+    maxError = Number.POSITIVE_INFINITY,
+    sharpAngle = 60,
+    mergeTolerance = 0.000001,
+    onProgress,
+  } = options
+
+  const { positions } = mesh
+  const vertexCount = positions.length / 3
+  const faceCount = Math.floor(mesh.indices.length / 3)
+  const indices = Array.from(mesh.indices.subarray(0, faceCount * 3))
+  const corners = mesh.corners
+    ? Array.from(mesh.corners.subarray(0, faceCount * 3))
+    : null
+  const targetFaces = Math.max(
+    options.targetFaces ?? Math.round(faceCount * targetRatio),
+    0,
+  )
+  const maxErrorSq = maxError * maxError
+
+  // Topology is judged on welded positions so attribute seams do not look like holes
+  const positionIds = weldVertices(
+    vertexCount,
+    [[positions, 3]],
+    mergeTolerance,
+  )
+  const pid = (vertex: number) => positionIds[vertex]
+  const positionKey = (a: number, b: number) =>
+    a < b ? a * vertexCount + b : b * vertexCount + a
+
+  const faceAlive = new Array<boolean>(faceCount).fill(true)
+  const vertexFaces = Array.from(
+    { length: vertexCount },
+    () => new Set<number>(),
+  )
+  const siblings = new Map<number, Set<number>>()
+  const edgeFaces = new Map<number, number[]>()
+
+  for (let face = 0; face < faceCount; face++) {
+    for (let j = 0; j < 3; j++) {
+      const vertex = indices[face * 3 + j]
+      vertexFaces[vertex].add(face)
+
+      const group = siblings.get(pid(vertex))
+      if (group) group.add(vertex)
+      else siblings.set(pid(vertex), new Set([vertex]))
+
+      const edge = positionKey(
+        pid(vertex),
+        pid(indices[face * 3 + ((j + 1) % 3)]),
+      )
+      const faces = edgeFaces.get(edge)
+      if (faces) faces.push(face)
+      else edgeFaces.set(edge, [face])
+    }
+  }
+
+  const quadrics = new Float64Array(vertexCount * quadricSize)
+  const faceNormals = new Float64Array(faceCount * 3)
+  for (let face = 0; face < faceCount; face++) {
+    const [a, b, c] = faceCorners(face)
+    const normal = triangleNormal(a, b, c)
+    const doubleArea = Math.hypot(normal[0], normal[1], normal[2])
+    if (doubleArea === 0) continue
+
+    const [nx, ny, nz] = normal.map((value) => value / doubleArea)
+    faceNormals.set([nx, ny, nz], face * 3)
+    const d = -(
+      nx * positions[a * 3] +
+      ny * positions[a * 3 + 1] +
+      nz * positions[a * 3 + 2]
+    )
+    for (const vertex of [a, b, c]) {
+      addPlane(vertex, nx, ny, nz, d, doubleArea / 2)
+    }
+  }
+
+  // Boundaries and creases are feature lines: their vertices may only slide
+  // along them, and vertices where they end or branch never move
+  const featureLinks = new Map<number, Set<number>>()
+  const linkFeature = (a: number, b: number) => {
+    for (const [from, to] of [
+      [a, b],
+      [b, a],
+    ]) {
+      const links = featureLinks.get(from)
+      if (links) links.add(to)
+      else featureLinks.set(from, new Set([to]))
+    }
+  }
+  const isFeature = (a: number, b: number) =>
+    featureLinks.get(a)?.has(b) ?? false
+  const locked = new Array<boolean>(vertexCount).fill(false)
+  const sharpCos = Math.cos((sharpAngle * Math.PI) / 180)
+
+  for (const [edge, faces] of edgeFaces) {
+    const a = Math.floor(edge / vertexCount)
+    const b = edge % vertexCount
+
+    if (faces.length > 2) {
+      for (const vertex of [...siblingsOf(a), ...siblingsOf(b)]) {
+        locked[vertex] = true
+      }
+      continue
+    }
+
+    if (faces.length === 2) {
+      const [f1, f2] = faces
+      const cos =
+        faceNormals[f1 * 3] * faceNormals[f2 * 3] +
+        faceNormals[f1 * 3 + 1] * faceNormals[f2 * 3 + 1] +
+        faceNormals[f1 * 3 + 2] * faceNormals[f2 * 3 + 2]
+      if (cos < sharpCos) linkFeature(a, b)
+      continue
+    }
+
+    linkFeature(a, b)
+
+    // A plane through the open edge, perpendicular to its face, keeps the
+    // boundary from shrinking
+    const face = faces[0]
+    const [ax, ay, az] = position(a)
+    const [bx, by, bz] = position(b)
+    const ex = bx - ax,
+      ey = by - ay,
+      ez = bz - az
+    const fx = faceNormals[face * 3],
+      fy = faceNormals[face * 3 + 1],
+      fz = faceNormals[face * 3 + 2]
+    let px = ey * fz - ez * fy,
+      py = ez * fx - ex * fz,
+      pz = ex * fy - ey * fx
+    const length = Math.hypot(px, py, pz)
+    if (length === 0) continue
+    px /= length
+    py /= length
+    pz /= length
+
+    const weight = boundaryWeight * (ex * ex + ey * ey + ez * ez)
+    const d = -(px * ax + py * ay + pz * az)
+    for (const vertex of [...siblingsOf(a), ...siblingsOf(b)]) {
+      addPlane(vertex, px, py, pz, d, weight)
+    }
+  }
+
+  for (const [id, group] of siblings) {
+    const links = [...(featureLinks.get(id) ?? [])]
+    // Vertices on attribute seams are kept so UV and normal seams stay intact,
+    // as are the ends, branches and corners of feature lines
+    if (
+      group.size > 1 ||
+      (links.length !== 0 && links.length !== 2) ||
+      (links.length === 2 && isCorner(id, links[0], links[1]))
+    ) {
+      for (const vertex of group) locked[vertex] = true
+    }
+  }
+
+  const version = new Uint32Array(vertexCount)
+  const heap = new CollapseHeap()
+
+  const pushCollapse = (from: number, to: number) => {
+    if (locked[from] || pid(from) === pid(to)) return
+    if (featureLinks.has(pid(from)) && !isFeature(pid(from), pid(to))) return
+    heap.push(collapseError(from, to), from, to, version[from], version[to])
+  }
+
+  for (let face = 0; face < faceCount; face++) {
+    for (let j = 0; j < 3; j++) {
+      const a = indices[face * 3 + j]
+      const b = indices[face * 3 + ((j + 1) % 3)]
+      pushCollapse(a, b)
+      pushCollapse(b, a)
+    }
+  }
+
+  let aliveFaces = faceCount
+  const removable = faceCount - targetFaces
+  let lastProgress = 0
+
+  while (aliveFaces > targetFaces && heap.size > 0) {
+    const entry = heap.pop()
+    if (!entry) break
+    const { error, from, to } = entry
+    if (
+      version[from] !== entry.fromVersion ||
+      version[to] !== entry.toVersion
+    ) {
+      continue
+    }
+    if (error > maxErrorSq) break
+    if (vertexFaces[from].size === 0 || !canCollapse(from, to)) continue
+
+    aliveFaces -= collapse(from, to)
+
+    const percent = Math.floor(((faceCount - aliveFaces) / removable) * 100)
+    if (percent > lastProgress) {
+      lastProgress = percent
+      onProgress?.(percent, "simplify")
+    }
+  }
+
+  const keptIndices: number[] = []
+  const keptCorners: number[] | null = corners ? [] : null
+  for (let face = 0; face < faceCount; face++) {
+    if (!faceAlive[face]) continue
+    keptIndices.push(
+      indices[face * 3],
+      indices[face * 3 + 1],
+      indices[face * 3 + 2],
+    )
+    if (keptCorners && corners) {
+      keptCorners.push(
+        corners[face * 3],
+        corners[face * 3 + 1],
+        corners[face * 3 + 2],
+      )
+    }
+  }
+
+  const used = new Set(keptIndices)
+  const vertexMap: number[] = []
+  const remap = new Map<number, number>()
+  for (let i = 0; i < vertexCount; i++) {
+    if (!used.has(i)) continue
+    remap.set(i, vertexMap.length)
+    vertexMap.push(i)
+  }
+
+  return {
+    mesh: {
+      positions: compactArray(positions, 3, vertexMap),
+      normals: mesh.normals ? compactArray(mesh.normals, 3, vertexMap) : null,
+      indices: Uint32Array.from(keptIndices, (index) => remap.get(index) ?? 0),
+      attributes: mesh.attributes.map((attribute) => ({
+        ...attribute,
+        array: compactArray(attribute.array, attribute.itemSize, vertexMap),
+      })),
+      corners: keptCorners ? Uint32Array.from(keptCorners) : null,
+    },
+    vertexMap: Uint32Array.from(vertexMap),
+    repairs: { simplify: faceCount - aliveFaces },
+  }
+
+  function faceCorners(face: number): [number, number, number] {
+    return [indices[face * 3], indices[face * 3 + 1], indices[face * 3 + 2]]
+  }
+
+  function position(id: number): [number, number, number] {
+    const vertex = siblings.get(id)?.values().next().value ?? id
+    return [
+      positions[vertex * 3],
+      positions[vertex * 3 + 1],
+      positions[vertex * 3 + 2],
+    ]
+  }
+
+  function isCorner(id: number, a: number, b: number): boolean {
+    const p = position(id)
+    const u = position(a).map((value, i) => value - p[i])
+    const v = position(b).map((value, i) => value - p[i])
+    const cos =
+      (u[0] * v[0] + u[1] * v[1] + u[2] * v[2]) /
+      (Math.hypot(u[0], u[1], u[2]) * Math.hypot(v[0], v[1], v[2]) || 1)
+    // Straight lines run at 180 degrees, where the cosine is -1
+    return cos > -sharpCos
+  }
+
+  function siblingsOf(id: number): Set<number> {
+    return siblings.get(id) ?? new Set()
+  }
+
+  function triangleNormal(a: number, b: number, c: number): number[] {
+    const abx = positions[b * 3] - positions[a * 3],
+      aby = positions[b * 3 + 1] - positions[a * 3 + 1],
+      abz = positions[b * 3 + 2] - positions[a * 3 + 2]
+    const acx = positions[c * 3] - positions[a * 3],
+      acy = positions[c * 3 + 1] - positions[a * 3 + 1],
+      acz = positions[c * 3 + 2] - positions[a * 3 + 2]
+    return [aby * acz - abz * acy, abz * acx - abx * acz, abx * acy - aby * acx]
+  }
+
+  function addPlane(
+    vertex: number,
+    a: number,
+    b: number,
+    c: number,
+    d: number,
+    weight: number,
+  ): void {
+    const q = vertex * quadricSize
+    quadrics[q] += weight * a * a
+    quadrics[q + 1] += weight * a * b
+    quadrics[q + 2] += weight * a * c
+    quadrics[q + 3] += weight * a * d
+    quadrics[q + 4] += weight * b * b
+    quadrics[q + 5] += weight * b * c
+    quadrics[q + 6] += weight * b * d
+    quadrics[q + 7] += weight * c * c
+    quadrics[q + 8] += weight * c * d
+    quadrics[q + 9] += weight * d * d
+    quadrics[q + 10] += weight
+  }
+
+  // Mean squared distance of the target position to the planes of both vertices
+  function collapseError(from: number, to: number): number {
+    const x = positions[to * 3],
+      y = positions[to * 3 + 1],
+      z = positions[to * 3 + 2]
+    const f = from * quadricSize
+    const t = to * quadricSize
+    const q = (i: number) => quadrics[f + i] + quadrics[t + i]
+
+    const error =
+      q(0) * x * x +
+      2 * q(1) * x * y +
+      2 * q(2) * x * z +
+      2 * q(3) * x +
+      q(4) * y * y +
+      2 * q(5) * y * z +
+      2 * q(6) * y +
+      q(7) * z * z +
+      2 * q(8) * z +
+      q(9)
+    const weight = q(10)
+    return weight > 0 ? Math.max(error, 0) / weight : 0
+  }
+
+  function neighbourPositions(vertices: Iterable<number>): Set<number> {
+    const neighbours = new Set<number>()
+    for (const vertex of vertices) {
+      for (const face of vertexFaces[vertex]) {
+        for (const other of faceCorners(face)) neighbours.add(pid(other))
+      }
+    }
+    return neighbours
+  }
+
+  function canCollapse(from: number, to: number): boolean {
+    const target = pid(to)
+    let sharedFaces = 0
+    for (const face of vertexFaces[from]) {
+      if (faceCorners(face).some((vertex) => pid(vertex) === target)) {
+        sharedFaces++
+      }
+    }
+    if (sharedFaces === 0) return false
+
+    // Link condition: the two vertices may only share the vertices opposite
+    // their common faces, otherwise the collapse pinches the surface
+    const fromNeighbours = neighbourPositions([from])
+    const toNeighbours = neighbourPositions(siblingsOf(target))
+    let common = 0
+    for (const id of fromNeighbours) {
+      if (id !== pid(from) && id !== target && toNeighbours.has(id)) common++
+    }
+    if (common !== sharedFaces) return false
+
+    // Reject collapses that flip or flatten any remaining face
+    for (const face of vertexFaces[from]) {
+      const vertices = faceCorners(face)
+      if (vertices.some((vertex) => pid(vertex) === target)) continue
+
+      const before = triangleNormal(...vertices)
+      const after = triangleNormal(
+        ...(vertices.map((vertex) => (vertex === from ? to : vertex)) as [
+          number,
+          number,
+          number,
+        ]),
+      )
+      const dot =
+        before[0] * after[0] + before[1] * after[1] + before[2] * after[2]
+      const lengths =
+        Math.hypot(before[0], before[1], before[2]) *
+        Math.hypot(after[0], after[1], after[2])
+      if (!(dot > 0.1 * lengths)) return false
+    }
+    return true
+  }
+
+  function collapse(from: number, to: number): number {
+    const target = pid(to)
+    let removed = 0
+
+    for (const face of [...vertexFaces[from]]) {
+      const faceIndices = faceCorners(face)
+      if (faceIndices.some((vertex) => pid(vertex) === target)) {
+        faceAlive[face] = false
+        for (const vertex of faceIndices) vertexFaces[vertex].delete(face)
+        removed++
+        continue
+      }
+
+      for (let j = 0; j < 3; j++) {
+        if (indices[face * 3 + j] === from) indices[face * 3 + j] = to
+      }
+      vertexFaces[to].add(face)
+    }
+    vertexFaces[from].clear()
+
+    // A vertex sliding along a feature line hands its other feature edge on
+    const fromId = pid(from)
+    const links = featureLinks.get(fromId)
+    if (links) {
+      featureLinks.delete(fromId)
+      for (const other of links) featureLinks.get(other)?.delete(fromId)
+      for (const other of links) {
+        if (other !== target) linkFeature(other, target)
+      }
+    }
+
+    for (let i = 0; i < quadricSize; i++) {
+      quadrics[to * quadricSize + i] += quadrics[from * quadricSize + i]
+    }
+    version[from]++
+    version[to]++
+
+    const neighbours = new Set<number>()
+    for (const face of vertexFaces[to]) {
+      for (const other of faceCorners(face)) neighbours.add(other)
+    }
+    neighbours.delete(to)
+    for (const other of neighbours) {
+      pushCollapse(to, other)
+      pushCollapse(other, to)
+    }
+
+    return removed
+  }
+}
+
+interface CollapseEntry {
+  error: number
+  from: number
+  to: number
+  fromVersion: number
+  toVersion: number
+}
+
+class CollapseHeap {
+  private entries: CollapseEntry[] = []
+
+  get size(): number {
+    return this.entries.length
+  }
+
+  push(
+    error: number,
+    from: number,
+    to: number,
+    fromVersion: number,
+    toVersion: number,
+  ): void {
+    const entries = this.entries
+    const entry = { error, from, to, fromVersion, toVersion }
+
+    // Sift the new entry up by moving parents down into the hole
+    let i = entries.length
+    entries.push(entry)
+    while (i > 0) {
+      const parent = (i - 1) >> 1
+      if (entries[parent].error <= error) break
+      entries[i] = entries[parent]
+      i = parent
+    }
+    entries[i] = entry
+  }
+
+  pop(): CollapseEntry | undefined {
+    const entries = this.entries
+    const top = entries[0]
+    const last = entries.pop()
+    if (entries.length === 0 || !last) return top
+
+    let i = 0
+    while (true) {
+      const left = i * 2 + 1
+      if (left >= entries.length) break
+      const right = left + 1
+      const child =
+        right < entries.length && entries[right].error < entries[left].error
+          ? right
+          : left
+      if (entries[child].error >= last.error) break
+      entries[i] = entries[child]
+      i = child
+    }
+    entries[i] = last
+    return top
+  }
+}
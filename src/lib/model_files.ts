@@ -0,0 +1,170 @@
+import { unzipSync } from "three/addons/libs/fflate.module.js"
+
+// A selected, dropped or unzipped file with its path relative to the root of
+// the selection, using forward slashes
+export interface ModelFile {
+  path: string
+  file: File
+}
+
+export function fileExtension(name: string): string {
+  const dot = name.lastIndexOf(".")
+  return dot < 0 ? "" : name.slice(dot + 1).toLowerCase()
+}
+
+export function filesFromList(list: FileList | File[]): ModelFile[] {
+  return Array.from(list, (file) => ({
+    path: normalizePath(file.webkitRelativePath || file.name),
+    file,
+  }))
+}
+
+// Reads dropped files and walks dropped directories
+export async function collectDroppedFiles(
+  dataTransfer: DataTransfer,
+): Promise<ModelFile[]> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry())
+    .filter((entry) => entry !== null)
+  if (entries.length === 0) return filesFromList(dataTransfer.files)
+
+  const files: ModelFile[] = []
+  const visit = async (entry: FileSystemEntry): Promise<void> => {
+    if (isFileEntry(entry)) {
+      const file = await new Promise<File>((resolve, reject) =>
+        entry.file(resolve, reject),
+      )
+      files.push({ path: normalizePath(entry.fullPath), file })
+    } else if (isDirectoryEntry(entry)) {
+      for (const child of await readDirectory(entry)) await visit(child)
+    }
+  }
+  for (const entry of entries) await visit(entry)
+  return files
+}
+
+// Replaces every .zip among the files with its contents, keeping the archive
+// folder as a path prefix so several archives can be dropped at once
+export async function expandZipArchives(
+  files: ModelFile[],
+): Promise<ModelFile[]> {
+  const expanded: ModelFile[] = []
+
+  for (const modelFile of files) {
+    if (fileExtension(modelFile.path) !== "zip") {
+      expanded.push(modelFile)
+      continue
+    }
+
+    const folder = modelFile.path.replace(/[^/]*$/, "")
+    const entries = unzipSync(
+      new Uint8Array(await modelFile.file.arrayBuffer()),
+      {
+        filter: ({ name }) =>
+          !name.endsWith("/") && !name.startsWith("__MACOSX/"),
+      },
+    )
+    for (const [name, data] of Object.entries(entries)) {
+      const path = normalizePath(folder + name)
+      expanded.push({
+        path,
+        file: new File([data as Uint8Array<ArrayBuffer>], baseName(path)),
+      })
+    }
+  }
+
+  return expanded
+}
+
+// Maps URIs referenced by a model file to the other files, creating object
+// URLs on demand. URIs are resolved against the model's folder first, then
+// matched by file name alone, since exporters often write absolute paths
+export class ResourceResolver {
+  private byPath = new Map<string, ModelFile>()
+  private byName = new Map<string, ModelFile>()
+  private urls = new Map<ModelFile, string>()
+  private folder: string
+
+  constructor(files: ModelFile[], folder: string = "") {
+    this.folder = folder
+    for (const modelFile of files) {
+      const key = modelFile.path.toLowerCase()
+      this.byPath.set(key, modelFile)
+      if (!this.byName.has(baseName(key))) {
+        this.byName.set(baseName(key), modelFile)
+      }
+    }
+  }
+
+  public find(uri: string): ModelFile | null {
+    let decoded = uri
+    try {
+      decoded = decodeURIComponent(uri)
+    } catch {
+      // Keep malformed escapes as they are
+    }
+
+    const path = normalizePath(`${this.folder}/${decoded}`).toLowerCase()
+    return (
+      this.byPath.get(path) ?? this.byName.get(baseName(path).trim()) ?? null
+    )
+  }
+
+  public resolve(uri: string): string {
+    if (/^(data|blob|https?):/i.test(uri)) return uri
+
+    const modelFile = this.find(uri)
+    if (!modelFile) return uri
+
+    let url = this.urls.get(modelFile)
+    if (!url) {
+      url = URL.createObjectURL(modelFile.file)
+      this.urls.set(modelFile, url)
+    }
+    return url
+  }
+
+  public dispose(): void {
+    for (const url of this.urls.values()) URL.revokeObjectURL(url)
+    this.urls.clear()
+  }
+}
+
+export function normalizePath(path: string): string {
+  const parts: string[] = []
+  for (const part of path.replace(/\\/g, "/").split("/")) {
+    if (part === "" || part === ".") continue
+    if (part === "..") parts.pop()
+    else parts.push(part)
+  }
+  return parts.join("/")
+}
+
+export function baseName(path: string): string {
+  return path.slice(path.replace(/\\/g, "/").lastIndexOf("/") + 1)
+}
+
+function isFileEntry(entry: FileSystemEntry): entry is FileSystemFileEntry {
+  return entry.isFile
+}
+
+function isDirectoryEntry(
+  entry: FileSystemEntry,
+): entry is FileSystemDirectoryEntry {
+  return entry.isDirectory
+}
+
+// readEntries returns at most 100 entries per call, so it is called until empty
+async function readDirectory(
+  directory: FileSystemDirectoryEntry,
+): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) =>
+      reader.readEntries(resolve, reject),
+    )
+    if (batch.length === 0) return entries
+    entries.push(...batch)
+  }
+}
@@ -0,0 +1,356 @@
+import * as THREE from "three"
+import { unzipSync } from "three/addons/libs/fflate.module.js"
+import { MeshoptDecoder } from "three/addons/libs/meshopt_decoder.module.js"
+import { ThreeMFLoader } from "three/addons/loaders/3MFLoader.js"
+import { DRACOLoader } from "three/addons/loaders/DRACOLoader.js"
+import { FBXLoader } from "three/addons/loaders/FBXLoader.js"
+import { GLTFLoader } from "three/addons/loaders/GLTFLoader.js"
+import { KTX2Loader } from "three/addons/loaders/KTX2Loader.js"
+import { MTLLoader } from "three/addons/loaders/MTLLoader.js"
+import { OBJLoader } from "three/addons/loaders/OBJLoader.js"
+import { PLYLoader } from "three/addons/loaders/PLYLoader.js"
+import { STLLoader } from "three/addons/loaders/STLLoader.js"
+import {
+  baseName,
+  expandZipArchives,
+  fileExtension,
+  type ModelFile,
+  ResourceResolver,
+} from "./model_files"
+import { type LengthUnit, unitFromMeters } from "./units"
+
+export const modelFormats = [
+  "glb",
+  "gltf",
+  "obj",
+  "stl",
+  "ply",
+  "fbx",
+  "3mf",
+] as const
+
+export type ModelFormat = (typeof modelFormats)[number]
+
+export const modelFileAccept = modelFormats
+  .map((format) => `.${format}`)
+  .concat(".mtl", ".bin", ".zip", "image/*")
+  .join(",")
+
+export interface LoadedModel {
+  object: THREE.Object3D
+  animations: THREE.AnimationClip[]
+  format: ModelFormat
+  name: string
+  // Length unit declared by the file, null for formats without one
+  unit: LengthUnit | null
+  // Releases the object URLs created for companion files
+  dispose: () => void
+}
+
+// Binary signatures win over the extension, since exporters are not always
+// careful about naming their output
+export function detectModelFormat(
+  name: string,
+  bytes: Uint8Array,
+): ModelFormat | null {
+  const header = new TextDecoder().decode(bytes.subarray(0, 32))
+
+  if (header.startsWith("glTF")) return "glb"
+  if (header.startsWith("Kaydara FBX Binary")) return "fbx"
+  if (/^ply\r?\n/.test(header)) return "ply"
+  if (bytes[0] === 0x50 && bytes[1] === 0x4b) {
+    return fileExtension(name) === "3mf" ? "3mf" : null
+  }
+  if (bytes.length >= 84) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const faces = view.getUint32(80, true)
+    if (84 + faces * 50 === bytes.length) return "stl"
+  }
+
+  const extension = fileExtension(name)
+  return modelFormats.find((format) => format === extension) ?? null
+}
+
+export class ModelLoader {
+  public readonly gltfLoader = new GLTFLoader()
+  private dracoLoader = new DRACOLoader()
+  private ktx2Loader = new KTX2Loader()
+  private decoderFiles: Record<string, string> = {}
+
+  constructor() {
+    this.gltfLoader.setMeshoptDecoder(MeshoptDecoder)
+  }
+
+  // Enables Draco geometry and KTX2 textures. The decoder libraries are looked
+  // up by file name in decoderFiles instead of being fetched from a server
+  public setupDecoders(
+    renderer: THREE.WebGLRenderer,
+    decoderFiles: Record<string, string>,
+  ): void {
+    this.decoderFiles = decoderFiles
+    this.dracoLoader.setDecoderConfig({ type: "wasm" })
+    this.ktx2Loader.detectSupport(renderer)
+    this.gltfLoader
+      .setDRACOLoader(this.dracoLoader)
+      .setKTX2Loader(this.ktx2Loader)
+  }
+
+  public dispose(): void {
+    this.dracoLoader.dispose()
+    this.ktx2Loader.dispose()
+  }
+
+  // Picks the model among the selected files and loads it, resolving
+  // materials, textures and buffers it references from the other files.
+  // Zip archives are unpacked first
+  public async load(selection: ModelFile[]): Promise<LoadedModel> {
+    const files = await expandZipArchives(selection)
+    const source = await findModelFile(files)
+    if (!source) {
+      throw new Error(
+        `No supported model among ${files.map(({ path }) => path).join(", ")}`,
+      )
+    }
+
+    const { modelFile, format, buffer } = source
+    const resolver = new ResourceResolver(
+      files,
+      modelFile.path.replace(/[^/]*$/, ""),
+    )
+    const manager = new THREE.LoadingManager()
+    manager.setURLModifier(
+      (url) => this.decoderFiles[url] ?? resolver.resolve(url),
+    )
+
+    try {
+      const { object, animations } = await this.parse(
+        format,
+        buffer,
+        resolver,
+        manager,
+      )
+      if (format !== "glb" && format !== "gltf") toStandardMaterials(object)
+      object.name ||= modelFile.file.name
+
+      return {
+        object,
+        animations,
+        format,
+        name: modelFile.file.name,
+        unit: detectModelUnit(format, object, buffer),
+        dispose: () => resolver.dispose(),
+      }
+    } catch (error) {
+      resolver.dispose()
+      throw error
+    }
+  }
+
+  private async parse(
+    format: ModelFormat,
+    buffer: ArrayBuffer,
+    resolver: ResourceResolver,
+    manager: THREE.LoadingManager,
+  ): Promise<{ object: THREE.Object3D; animations: THREE.AnimationClip[] }> {
+    switch (format) {
+      case "glb":
+      case "gltf": {
+        this.gltfLoader.manager = manager
+        this.dracoLoader.manager = manager
+        this.ktx2Loader.manager = manager
+        const gltf = await this.gltfLoader.parseAsync(
+          format === "glb" ? buffer : new TextDecoder().decode(buffer),
+          "",
+        )
+        const object = gltf.scene || gltf.scenes?.[0]
+        if (!object) throw new Error("glTF file has no scene")
+        return { object, animations: gltf.animations }
+      }
+      case "obj": {
+        const text = new TextDecoder().decode(buffer)
+        const loader = new OBJLoader(manager)
+        const materials = await loadObjMaterials(text, resolver, manager)
+        if (materials) loader.setMaterials(materials)
+        return { object: loader.parse(text), animations: [] }
+      }
+      case "stl":
+        return {
+          object: geometryMesh(new STLLoader(manager).parse(buffer)),
+          animations: [],
+        }
+      case "ply":
+        return {
+          object: geometryMesh(new PLYLoader(manager).parse(buffer)),
+          animations: [],
+        }
+      case "fbx": {
+        const object = new FBXLoader(manager).parse(buffer, "")
+        return { object, animations: object.animations }
+      }
+      case "3mf": {
+        const object = new ThreeMFLoader(manager).parse(buffer)
+        // 3MF is Z-up by definition
+        object.rotation.set(-Math.PI / 2, 0, 0)
+        return { object, animations: [] }
+      }
+    }
+  }
+}
+
+const threeMFUnits: Record<string, LengthUnit> = {
+  millimeter: "mm",
+  centimeter: "cm",
+  meter: "m",
+  inch: "in",
+  foot: "ft",
+}
+
+function detectModelUnit(
+  format: ModelFormat,
+  object: THREE.Object3D,
+  buffer: ArrayBuffer,
+): LengthUnit | null {
+  switch (format) {
+    case "glb":
+    case "gltf":
+      // glTF is in meters by definition
+      return "m"
+    case "fbx": {
+      // Centimeters per unit, with centimeters as the FBX default
+      const factor = object.userData.unitScaleFactor ?? 1
+      return unitFromMeters(factor / 100)
+    }
+    case "3mf": {
+      const [model] = Object.values(
+        unzipSync(new Uint8Array(buffer), {
+          filter: ({ name }) => name.endsWith(".model"),
+        }),
+      )
+      const xml = model ? new TextDecoder().decode(model) : ""
+      const unit = /<model\b[^>]*\bunit="(\w+)"/.exec(xml)?.[1]
+      // Millimeters are the 3MF default
+      return threeMFUnits[unit ?? "millimeter"] ?? null
+    }
+    default:
+      return null
+  }
+}
+
+async function findModelFile(files: ModelFile[]): Promise<{
+  modelFile: ModelFile
+  format: ModelFormat
+  buffer: ArrayBuffer
+} | null> {
+  // Files named like a model come first, in the order of modelFormats and
+  // shallowest first, so a texture is only sniffed when nothing else matched
+  const rank = ({ path }: ModelFile) => {
+    const index = (modelFormats as readonly string[]).indexOf(
+      fileExtension(path),
+    )
+    return index < 0 ? modelFormats.length : index
+  }
+  const depth = ({ path }: ModelFile) => path.split("/").length
+  const candidates = [...files].sort(
+    (a, b) => rank(a) - rank(b) || depth(a) - depth(b),
+  )
+
+  for (const modelFile of candidates) {
+    const buffer = await modelFile.file.arrayBuffer()
+    const format = detectModelFormat(modelFile.path, new Uint8Array(buffer))
+    if (format) return { modelFile, format, buffer }
+  }
+  return null
+}
+
+// Texture paths in an MTL file are relative to the MTL file itself
+async function loadObjMaterials(
+  text: string,
+  resolver: ResourceResolver,
+  manager: THREE.LoadingManager,
+): Promise<MTLLoader.MaterialCreator | null> {
+  for (const [, library] of text.matchAll(/^mtllib\s+(.+?)\s*$/gm)) {
+    const mtlFile = resolver.find(library)
+    if (!mtlFile) continue
+
+    const folder = library.slice(0, library.length - baseName(library).length)
+    const materials = new MTLLoader(manager).parse(
+      await mtlFile.file.text(),
+      folder.replace(/\\/g, "/"),
+    )
+    materials.preload()
+    return materials
+  }
+  return null
+}
+
+function geometryMesh(geometry: THREE.BufferGeometry): THREE.Mesh {
+  if (!geometry.getAttribute("normal")) geometry.computeVertexNormals()
+  const material = new THREE.MeshStandardMaterial({
+    vertexColors: geometry.hasAttribute("color"),
+  })
+  return new THREE.Mesh(geometry, material)
+}
+
+// The viewer and path tracer work on MeshStandardMaterial, so the Phong,
+// Lambert and basic materials of OBJ, FBX and 3MF files are converted
+function toStandardMaterials(object: THREE.Object3D): void {
+  const converted = new Map<THREE.Material, THREE.Material>()
+  const convert = (material: THREE.Material) => {
+    let standard = converted.get(material)
+    if (!standard) {
+      standard = toStandardMaterial(material)
+      converted.set(material, standard)
+    }
+    return standard
+  }
+
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return
+    child.material = Array.isArray(child.material)
+      ? child.material.map(convert)
+      : convert(child.material)
+  })
+
+  for (const [source, standard] of converted) {
+    if (source !== standard) source.dispose()
+  }
+}
+
+function toStandardMaterial(material: THREE.Material): THREE.Material {
+  if (
+    !(material instanceof THREE.MeshPhongMaterial) &&
+    !(material instanceof THREE.MeshLambertMaterial) &&
+    !(material instanceof THREE.MeshBasicMaterial)
+  ) {
+    return material
+  }
+
+  const standard = new THREE.MeshStandardMaterial({
+    name: material.name,
+    color: material.color,
+    map: material.map,
+    alphaMap: material.alphaMap,
+    aoMap: material.aoMap,
+    transparent: material.transparent,
+    opacity: material.opacity,
+    alphaTest: material.alphaTest,
+    side: material.side,
+    vertexColors: material.vertexColors,
+    metalness: 0,
+    roughness: 1,
+  })
+
+  if (!(material instanceof THREE.MeshBasicMaterial)) {
+    standard.emissive.copy(material.emissive)
+    standard.emissiveMap = material.emissiveMap
+    standard.normalMap = material.normalMap
+    standard.bumpMap = material.bumpMap
+    standard.bumpScale = material.bumpScale
+  }
+  if (material instanceof THREE.MeshPhongMaterial) {
+    // Rough Blinn-Phong to GGX match of the specular lobe width
+    standard.roughness = Math.sqrt(2 / (material.shininess + 2))
+  }
+
+  return standard
+}
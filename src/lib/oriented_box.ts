@@ -0,0 +1,359 @@
+import * as THREE from "three"
+import { OBB } from "three/addons/math/OBB.js"
+
+export const boundingBoxModes = ["axis-aligned", "pca", "calipers"] as const
+
+export type BoundingBoxMode = (typeof boundingBoxModes)[number]
+
+export type OrientedBoxMethod = Exclude<BoundingBoxMode, "axis-aligned">
+
+// Orientation searches run on at most this many vertices; the extents of the
+// final box always cover every vertex
+const maxSamplePoints = 50000
+
+const worldAxes = [
+  new THREE.Vector3(1, 0, 0),
+  new THREE.Vector3(0, 1, 0),
+  new THREE.Vector3(0, 0, 1),
+]
+
+// World-space box around the posed vertices of every mesh under the object.
+// "pca" aligns the box with the principal axes of the vertices. "calipers"
+// also tries each principal and world axis as the up axis, finds the
+// minimum-area rectangle around the vertices projected on the plane below it,
+// and keeps the candidate with the smallest volume, or the smallest surface
+// area among boxes of about the same volume such as flat parts. The box axes
+// are ordered so that x, y and z are the ones closest to the world axes
+export function computeOrientedBox(
+  object: THREE.Object3D,
+  method: OrientedBoxMethod,
+): OBB {
+  const points = collectWorldPoints(object)
+  if (points.length === 0) return new OBB()
+
+  const sample = samplePoints(points)
+  const principal = principalAxes(sample)
+  let best = fitBox(points, principal)
+  if (method === "calipers") {
+    for (const up of [...principal, ...worldAxes]) {
+      const candidate = fitBox(points, calipersAxes(sample, up))
+      if (isSmallerBox(candidate, best)) best = candidate
+    }
+  }
+  return alignToWorld(best)
+}
+
+// Transform of the unit cube centered at the origin onto the box
+export function orientedBoxMatrix(
+  box: OBB,
+  target: THREE.Matrix4 = new THREE.Matrix4(),
+): THREE.Matrix4 {
+  const scale = box.halfSize.clone().multiplyScalar(2)
+  return target
+    .setFromMatrix3(box.rotation)
+    .scale(scale)
+    .setPosition(box.center)
+}
+
+function collectWorldPoints(object: THREE.Object3D): Float32Array {
+  object.updateWorldMatrix(true, true)
+  const meshes: THREE.Mesh[] = []
+  let count = 0
+  object.traverse((child) => {
+    if (!(child instanceof THREE.Mesh)) return
+    const position = child.geometry.getAttribute("position")
+    if (!position) return
+    meshes.push(child)
+    count += position.count
+  })
+
+  const points = new Float32Array(count * 3)
+  const vertex = new THREE.Vector3()
+  let offset = 0
+  for (const mesh of meshes) {
+    const position = mesh.geometry.getAttribute("position")
+    for (let i = 0; i < position.count; i++) {
+      mesh.getVertexPosition(i, vertex).applyMatrix4(mesh.matrixWorld)
+      vertex.toArray(points, offset)
+      offset += 3
+    }
+  }
+  return points
+}
+
+function samplePoints(points: Float32Array): Float32Array {
+  const count = points.length / 3
+  if (count <= maxSamplePoints) return points
+  const stride = count / maxSamplePoints
+  const sample = new Float32Array(maxSamplePoints * 3)
+  for (let i = 0; i < maxSamplePoints; i++) {
+    const index = Math.floor(i * stride) * 3
+    sample.set(points.subarray(index, index + 3), i * 3)
+  }
+  return sample
+}
+
+// Eigenvectors of the covariance matrix of the points
+function principalAxes(points: Float32Array): THREE.Vector3[] {
+  const count = points.length / 3
+  const mean = [0, 0, 0]
+  for (let i = 0; i < points.length; i++) mean[i % 3] += points[i] / count
+
+  const covariance = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ]
+  for (let i = 0; i < points.length; i += 3) {
+    const d = [
+      points[i] - mean[0],
+      points[i + 1] - mean[1],
+      points[i + 2] - mean[2],
+    ]
+    for (let r = 0; r < 3; r++) {
+      for (let c = r; c < 3; c++) covariance[r][c] += d[r] * d[c]
+    }
+  }
+  covariance[1][0] = covariance[0][1]
+  covariance[2][0] = covariance[0][2]
+  covariance[2][1] = covariance[1][2]
+
+  const vectors = jacobiEigenvectors(covariance)
+  const axes = [0, 1, 2].map((c) =>
+    new THREE.Vector3(vectors[0][c], vectors[1][c], vectors[2][c]).normalize(),
+  )
+  axes[2].crossVectors(axes[0], axes[1]).normalize()
+  return axes
+}
+
+// Diagonalizes a symmetric 3x3 matrix with Jacobi rotations and returns the
+// eigenvectors as the columns of the accumulated rotation
+function jacobiEigenvectors(matrix: number[][]): number[][] {
+  const a = matrix.map((row) => [...row])
+  const v = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ]
+  const scale = Math.abs(a[0][0]) + Math.abs(a[1][1]) + Math.abs(a[2][2])
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let p = 0
+    let q = 1
+    if (Math.abs(a[0][2]) > Math.abs(a[p][q])) [p, q] = [0, 2]
+    if (Math.abs(a[1][2]) > Math.abs(a[p][q])) [p, q] = [1, 2]
+    if (Math.abs(a[p][q]) <= 1e-12 * scale) break
+
+    const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+    const t =
+      (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+    const c = 1 / Math.sqrt(t * t + 1)
+    const s = t * c
+    for (let k = 0; k < 3; k++) {
+      const [akp, akq] = [a[k][p], a[k][q]]
+      a[k][p] = c * akp - s * akq
+      a[k][q] = s * akp + c * akq
+    }
+    for (let k = 0; k < 3; k++) {
+      const [apk, aqk] = [a[p][k], a[q][k]]
+      a[p][k] = c * apk - s * aqk
+      a[q][k] = s * apk + c * aqk
+    }
+    for (let k = 0; k < 3; k++) {
+      const [vkp, vkq] = [v[k][p], v[k][q]]
+      v[k][p] = c * vkp - s * vkq
+      v[k][q] = s * vkp + c * vkq
+    }
+  }
+  return v
+}
+
+// Axes of the minimum-area rectangle around the points projected on the plane
+// perpendicular to up, followed by up itself
+function calipersAxes(
+  points: Float32Array,
+  up: THREE.Vector3,
+): THREE.Vector3[] {
+  const w = up.clone().normalize()
+  const u = new THREE.Vector3()
+    .crossVectors(w, Math.abs(w.x) < 0.9 ? worldAxes[0] : worldAxes[1])
+    .normalize()
+  const v = new THREE.Vector3().crossVectors(w, u)
+
+  const projected: [number, number][] = []
+  for (let i = 0; i < points.length; i += 3) {
+    const [x, y, z] = [points[i], points[i + 1], points[i + 2]]
+    projected.push([x * u.x + y * u.y + z * u.z, x * v.x + y * v.y + z * v.z])
+  }
+  const [dx, dy] = minAreaRectangleDirection(convexHull(projected))
+
+  const axis = u.multiplyScalar(dx).addScaledVector(v, dy).normalize()
+  return [axis, new THREE.Vector3().crossVectors(w, axis), w]
+}
+
+// Counter-clockwise hull without collinear points (Andrew's monotone chain)
+function convexHull(points: [number, number][]): [number, number][] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1])
+  const cross = (
+    o: [number, number],
+    a: [number, number],
+    b: [number, number],
+  ) => (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0])
+
+  const lower: [number, number][] = []
+  for (const point of sorted) {
+    while (
+      lower.length >= 2 &&
+      cross(lower[lower.length - 2], lower[lower.length - 1], point) <= 0
+    ) {
+      lower.pop()
+    }
+    lower.push(point)
+  }
+  const upper: [number, number][] = []
+  for (let i = sorted.length - 1; i >= 0; i--) {
+    const point = sorted[i]
+    while (
+      upper.length >= 2 &&
+      cross(upper[upper.length - 2], upper[upper.length - 1], point) <= 0
+    ) {
+      upper.pop()
+    }
+    upper.push(point)
+  }
+  lower.pop()
+  upper.pop()
+  return lower.concat(upper)
+}
+
+// Rotating calipers: the minimum-area rectangle has a side on a hull edge, and
+// the extreme points along and across each edge only move forward as the
+// edges turn, so every edge is checked in one pass around the hull
+function minAreaRectangleDirection(hull: [number, number][]): [number, number] {
+  const n = hull.length
+  if (n < 3) {
+    if (n < 2) return [1, 0]
+    const length = Math.hypot(hull[1][0] - hull[0][0], hull[1][1] - hull[0][1])
+    if (length === 0) return [1, 0]
+    return [
+      (hull[1][0] - hull[0][0]) / length,
+      (hull[1][1] - hull[0][1]) / length,
+    ]
+  }
+
+  let best = Number.POSITIVE_INFINITY
+  let direction: [number, number] = [1, 0]
+  let far = 0
+  let high = 0
+  let near = 0
+  for (let i = 0; i < n; i++) {
+    const [ax, ay] = hull[i]
+    const [bx, by] = hull[(i + 1) % n]
+    const length = Math.hypot(bx - ax, by - ay)
+    if (length === 0) continue
+    const ex = (bx - ax) / length
+    const ey = (by - ay) / length
+    const along = (k: number) => (hull[k][0] - ax) * ex + (hull[k][1] - ay) * ey
+    const across = (k: number) =>
+      (hull[k][1] - ay) * ex - (hull[k][0] - ax) * ey
+
+    if (i === 0) {
+      for (let k = 1; k < n; k++) {
+        if (along(k) > along(far)) far = k
+        if (across(k) > across(high)) high = k
+        if (along(k) < along(near)) near = k
+      }
+    } else {
+      while (along((far + 1) % n) > along(far)) far = (far + 1) % n
+      while (across((high + 1) % n) > across(high)) high = (high + 1) % n
+      while (along((near + 1) % n) < along(near)) near = (near + 1) % n
+    }
+
+    const area = (along(far) - along(near)) * across(high)
+    if (area < best) {
+      best = area
+      direction = [ex, ey]
+    }
+  }
+  return direction
+}
+
+function fitBox(points: Float32Array, axes: THREE.Vector3[]): OBB {
+  const min = [Infinity, Infinity, Infinity]
+  const max = [-Infinity, -Infinity, -Infinity]
+  for (let i = 0; i < points.length; i += 3) {
+    const [x, y, z] = [points[i], points[i + 1], points[i + 2]]
+    for (let a = 0; a < 3; a++) {
+      const d = x * axes[a].x + y * axes[a].y + z * axes[a].z
+      if (d < min[a]) min[a] = d
+      if (d > max[a]) max[a] = d
+    }
+  }
+
+  const center = new THREE.Vector3()
+  const halfSize = new THREE.Vector3()
+  for (let a = 0; a < 3; a++) {
+    center.addScaledVector(axes[a], (min[a] + max[a]) / 2)
+    halfSize.setComponent(a, (max[a] - min[a]) / 2)
+  }
+  const rotation = new THREE.Matrix3().setFromMatrix4(
+    new THREE.Matrix4().makeBasis(axes[0], axes[1], axes[2]),
+  )
+  return new OBB(center, halfSize, rotation)
+}
+
+function boxVolume(box: OBB): number {
+  return box.halfSize.x * box.halfSize.y * box.halfSize.z
+}
+
+function boxArea(box: OBB): number {
+  const { x, y, z } = box.halfSize
+  return x * y + y * z + z * x
+}
+
+// Volumes within a millionth of the cube of the larger half diagonal count as
+// equal, so flat boxes whose thickness is rounding noise compare by area instead
+function isSmallerBox(box: OBB, other: OBB): boolean {
+  const size = Math.max(box.halfSize.length(), other.halfSize.length())
+  const difference = boxVolume(box) - boxVolume(other)
+  if (Math.abs(difference) > 1e-6 * size ** 3) return difference < 0
+  return boxArea(box) < boxArea(other)
+}
+
+// Reorders the box axes so that y is the most vertical one and x the one
+// closest to the world x axis, each pointing along its world axis
+function alignToWorld(box: OBB): OBB {
+  const axes = worldAxes.map((_, c) =>
+    new THREE.Vector3().setFromMatrix3Column(box.rotation, c),
+  )
+  const remaining = [0, 1, 2]
+  const take = (component: number) => {
+    const index = remaining.reduce((best, a) =>
+      Math.abs(axes[a].getComponent(component)) >
+      Math.abs(axes[best].getComponent(component))
+        ? a
+        : best,
+    )
+    remaining.splice(remaining.indexOf(index), 1)
+    return index
+  }
+  const yIndex = take(1)
+  const xIndex = take(0)
+  const [zIndex] = remaining
+
+  const x = axes[xIndex].clone()
+  const y = axes[yIndex].clone()
+  if (x.x < 0) x.negate()
+  if (y.y < 0) y.negate()
+  const z = new THREE.Vector3().crossVectors(x, y)
+
+  const halfSize = new THREE.Vector3(
+    box.halfSize.getComponent(xIndex),
+    box.halfSize.getComponent(yIndex),
+    box.halfSize.getComponent(zIndex),
+  )
+  const rotation = new THREE.Matrix3().setFromMatrix4(
+    new THREE.Matrix4().makeBasis(x, y, z),
+  )
+  return new OBB(box.center.clone(), halfSize, rotation)
+}
@@ -0,0 +1,148 @@
+import * as THREE from "three"
+import type { MeshRepairPreview } from "./geometry_fix"
+
+interface GeometryChange {
+  mesh: THREE.Mesh
+  before: THREE.BufferGeometry
+  after: THREE.BufferGeometry
+}
+
+export interface RepairStep {
+  operation: string
+  repairs: Record<string, number>
+  changes: GeometryChange[]
+}
+
+// Applied repair steps, kept as geometry snapshots so every step can be
+// undone and redone without rerunning the repair
+export class RepairHistory {
+  private undoStack: RepairStep[] = []
+  private redoStack: RepairStep[] = []
+
+  public get canUndo(): boolean {
+    return this.undoStack.length > 0
+  }
+
+  public get canRedo(): boolean {
+    return this.redoStack.length > 0
+  }
+
+  public get steps(): readonly RepairStep[] {
+    return this.undoStack
+  }
+
+  public apply(operation: string, previews: MeshRepairPreview[]): RepairStep {
+    const step: RepairStep = { operation, repairs: {}, changes: [] }
+
+    for (const preview of previews) {
+      for (const [name, count] of Object.entries(preview.repairs)) {
+        step.repairs[name] = (step.repairs[name] ?? 0) + count
+      }
+      step.changes.push({
+        mesh: preview.mesh,
+        before: preview.mesh.geometry,
+        after: preview.geometry,
+      })
+      preview.mesh.geometry = preview.geometry
+    }
+
+    this.disposeSteps(this.redoStack, "after")
+    this.redoStack = []
+    this.undoStack.push(step)
+    return step
+  }
+
+  public undo(): RepairStep | null {
+    const step = this.undoStack.pop()
+    if (!step) return null
+
+    for (const { mesh, before } of step.changes) mesh.geometry = before
+    this.redoStack.push(step)
+    return step
+  }
+
+  public redo(): RepairStep | null {
+    const step = this.redoStack.pop()
+    if (!step) return null
+
+    for (const { mesh, after } of step.changes) mesh.geometry = after
+    this.undoStack.push(step)
+    return step
+  }
+
+  // Drops the history, disposing every snapshot no mesh is using any more
+  public clear(): void {
+    this.disposeSteps(this.undoStack, "before")
+    this.disposeSteps(this.redoStack, "after")
+    this.undoStack = []
+    this.redoStack = []
+  }
+
+  private disposeSteps(steps: RepairStep[], side: "before" | "after"): void {
+    for (const step of steps) {
+      for (const change of step.changes) {
+        if (change.mesh.geometry !== change[side]) change[side].dispose()
+      }
+    }
+  }
+}
+
+export function createRepairHighlight(
+  previews: MeshRepairPreview[],
+): THREE.Group {
+  const group = new THREE.Group()
+  group.name = "RepairHighlight"
+
+  // Drawn on top of the model so changes on hidden faces stay visible
+  const overlay = { depthTest: false, transparent: true }
+
+  for (const preview of previews) {
+    preview.mesh.updateWorldMatrix(true, false)
+    const parts: THREE.Object3D[] = []
+
+    if (preview.removedEdges.length > 0) {
+      parts.push(
+        new THREE.LineSegments(
+          positionGeometry(preview.removedEdges),
+          new THREE.LineBasicMaterial({ color: 0xff3030, ...overlay }),
+        ),
+      )
+    }
+    if (preview.addedEdges.length > 0) {
+      parts.push(
+        new THREE.LineSegments(
+          positionGeometry(preview.addedEdges),
+          new THREE.LineBasicMaterial({ color: 0x30ff60, ...overlay }),
+        ),
+      )
+    }
+    if (preview.removedVertices.length > 0) {
+      parts.push(
+        new THREE.Points(
+          positionGeometry(preview.removedVertices),
+          new THREE.PointsMaterial({
+            color: 0xffd030,
+            size: 6,
+            sizeAttenuation: false,
+            ...overlay,
+          }),
+        ),
+      )
+    }
+
+    for (const part of parts) {
+      part.renderOrder = 999
+      part.matrixAutoUpdate = false
+      part.matrix.copy(preview.mesh.matrixWorld)
+      group.add(part)
+    }
+  }
+
+  return group
+}
+
+function positionGeometry(positions: Float32Array): THREE.BufferGeometry {
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3))
+  return geometry
+}
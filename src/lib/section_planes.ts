@@ -0,0 +1,615 @@
+import * as THREE from "three"
+
+export const sectionAxes = ["x", "y", "z", "free"] as const
+
+export type SectionAxis = (typeof sectionAxes)[number]
+
+const planeColor = 0x40a0ff
+const outlineColor = "#d02020"
+
+// Axis-aligned planes start by cutting away the positive half of their axis
+const axisNormals: Record<Exclude<SectionAxis, "free">, THREE.Vector3> = {
+  x: new THREE.Vector3(-1, 0, 0),
+  y: new THREE.Vector3(0, -1, 0),
+  z: new THREE.Vector3(0, 0, -1),
+}
+
+export interface SectionPlane {
+  axis: SectionAxis
+  // Moved by the gizmo. The plane passes through its origin and keeps the
+  // side its +Z axis points to
+  handle: THREE.Group
+  plane: THREE.Plane
+}
+
+// World space triangles of a mesh at its current pose
+interface MeshTriangles {
+  mesh: THREE.Mesh
+  positions: Float32Array
+  indices: ArrayLike<number>
+}
+
+interface Polyline {
+  points: THREE.Vector3[]
+  closed: boolean
+}
+
+// Vertices being clipped are flat arrays starting with the world position,
+// followed by the attributes that are interpolated along cut edges
+type ClipVertex = number[]
+
+// Clipping planes for the raster view, with the cut faces of the meshes
+// filled by cap meshes. The path tracer and the SVG export, which cannot
+// clip, get a copy of the models that is cut on the CPU instead
+export class SectionPlanes {
+  // Plane handles, kept out of exports and the path tracer
+  public readonly group = new THREE.Group()
+  public readonly caps = new THREE.Group()
+  public readonly items: SectionPlane[] = []
+  // Shared by every clipped material, so planes added later apply without
+  // touching the materials again
+  public readonly clippingPlanes: THREE.Plane[] = []
+  public capped = true
+  private capMaterials = new Map<THREE.Material, THREE.MeshStandardMaterial>()
+
+  constructor() {
+    this.group.name = "SectionPlanes"
+    this.caps.name = "SectionCaps"
+  }
+
+  // Free planes start facing along the view direction, cutting away the
+  // part of the model in front of the center
+  public add(
+    axis: SectionAxis,
+    center: THREE.Vector3,
+    size: number,
+    viewDirection: THREE.Vector3,
+  ): SectionPlane {
+    const normal =
+      axis === "free" ? viewDirection.clone().normalize() : axisNormals[axis]
+    const handle = new THREE.Group()
+    handle.name = `Section ${axis}`
+    handle.position.copy(center)
+    handle.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), normal)
+
+    const quad = new THREE.Mesh(
+      new THREE.PlaneGeometry(size, size),
+      new THREE.MeshBasicMaterial({
+        color: planeColor,
+        transparent: true,
+        opacity: 0.15,
+        side: THREE.DoubleSide,
+        depthWrite: false,
+      }),
+    )
+    const border = new THREE.LineSegments(
+      new THREE.EdgesGeometry(quad.geometry),
+      new THREE.LineBasicMaterial({ color: planeColor }),
+    )
+    handle.add(quad, border)
+    this.group.add(handle)
+
+    const section: SectionPlane = { axis, handle, plane: new THREE.Plane() }
+    this.items.push(section)
+    this.clippingPlanes.push(section.plane)
+    this.updatePlanes()
+    return section
+  }
+
+  public remove(section: SectionPlane): void {
+    const index = this.items.indexOf(section)
+    if (index < 0) return
+    this.items.splice(index, 1)
+    this.clippingPlanes.splice(index, 1)
+    this.group.remove(section.handle)
+    disposeObject(section.handle)
+  }
+
+  public clear(): void {
+    for (const section of [...this.items]) this.remove(section)
+    this.clearCaps()
+  }
+
+  public flip(section: SectionPlane): void {
+    section.handle.rotateY(Math.PI)
+    this.updatePlanes()
+  }
+
+  // Reads the planes back from their handles after they were moved
+  public updatePlanes(): void {
+    for (const { handle, plane } of this.items) {
+      handle.updateWorldMatrix(true, false)
+      const normal = new THREE.Vector3(0, 0, 1).transformDirection(
+        handle.matrixWorld,
+      )
+      const origin = new THREE.Vector3().setFromMatrixPosition(
+        handle.matrixWorld,
+      )
+      plane.setFromNormalAndCoplanarPoint(normal, origin)
+    }
+  }
+
+  // Lets the materials of every mesh under root be clipped by the planes
+  public applyTo(root: THREE.Object3D): void {
+    root.traverse((child) => {
+      if (!(child instanceof THREE.Mesh)) return
+      const materials = Array.isArray(child.material)
+        ? child.material
+        : [child.material]
+      for (const material of materials) {
+        material.clippingPlanes = this.clippingPlanes
+        material.clipShadows = true
+      }
+    })
+  }
+
+  // Rebuilds the caps of the visible meshes under root
+  public updateCaps(root: THREE.Object3D): void {
+    this.clearCaps()
+    if (this.items.length === 0) return
+    const used = new Set<THREE.Material>()
+    for (const cap of this.buildCaps(root)) {
+      this.caps.add(cap)
+      used.add(cap.material as THREE.Material)
+    }
+    for (const [source, material] of this.capMaterials) {
+      if (used.has(material)) continue
+      material.dispose()
+      this.capMaterials.delete(source)
+    }
+  }
+
+  // World space copy of the visible meshes under root, cut by every plane
+  // and capped. It shares the materials of the models, so only its
+  // geometries belong to the caller
+  public clippedCopy(root: THREE.Object3D): THREE.Group {
+    const copy = new THREE.Group()
+    copy.name = `${root.name} (section)`
+    for (const triangles of collectTriangles(root)) {
+      const geometry = clipMeshGeometry(triangles, this.clippingPlanes)
+      if (!geometry) continue
+      const mesh = new THREE.Mesh(geometry, triangles.mesh.material)
+      mesh.name = triangles.mesh.name
+      copy.add(mesh)
+    }
+    for (const cap of this.buildCaps(root)) copy.add(cap)
+    return copy
+  }
+
+  // SVG outlines of the cross-sections of the visible meshes under root,
+  // using the same projection as the rest of the exported drawing
+  public toSvg(
+    root: THREE.Object3D,
+    project: (point: THREE.Vector3) => THREE.Vector2,
+  ): string {
+    const meshes = collectTriangles(root)
+    const tolerance = weldTolerance(root)
+    const elements: string[] = []
+    for (const { plane } of this.items) {
+      const others = this.clippingPlanes.filter((other) => other !== plane)
+      for (const triangles of meshes) {
+        const segments = sliceTriangles(triangles, plane).flatMap((segment) => {
+          const clipped = clipSegment(segment, others)
+          return clipped ? [clipped] : []
+        })
+        for (const { points, closed } of joinSegments(segments, tolerance)) {
+          const path = points
+            .map((point) => project(point))
+            .map(({ x, y }) => `${x},${y}`)
+            .join(" ")
+          const element = closed ? "polygon" : "polyline"
+          elements.push(
+            `<${element} points="${path}" fill="none" stroke="${outlineColor}" stroke-width="1.5"/>`,
+          )
+        }
+      }
+    }
+    return elements.join("\n")
+  }
+
+  public dispose(): void {
+    this.clear()
+    for (const material of this.capMaterials.values()) material.dispose()
+    this.capMaterials.clear()
+  }
+
+  private clearCaps(): void {
+    for (const cap of [...this.caps.children]) {
+      if (cap instanceof THREE.Mesh) cap.geometry.dispose()
+      this.caps.remove(cap)
+    }
+  }
+
+  // Fills the closed loops cut by each plane, clipped by the other planes
+  private buildCaps(root: THREE.Object3D): THREE.Mesh[] {
+    if (!this.capped) return []
+    const meshes = collectTriangles(root)
+    const tolerance = weldTolerance(root)
+    const caps: THREE.Mesh[] = []
+    for (const { plane } of this.items) {
+      const others = this.clippingPlanes.filter((other) => other !== plane)
+      for (const triangles of meshes) {
+        const loops = joinSegments(
+          sliceTriangles(triangles, plane),
+          tolerance,
+        ).filter(({ closed }) => closed)
+        const geometry = capGeometry(loops, plane, others)
+        if (!geometry) continue
+        const cap = new THREE.Mesh(
+          geometry,
+          this.capMaterial(triangles.mesh.material),
+        )
+        cap.name = `${triangles.mesh.name} (cap)`
+        caps.push(cap)
+      }
+    }
+    return caps
+  }
+
+  // Caps take the color of the mesh they close
+  private capMaterial(
+    source: THREE.Material | THREE.Material[],
+  ): THREE.MeshStandardMaterial {
+    const material = Array.isArray(source) ? source[0] : source
+    let cap = this.capMaterials.get(material)
+    if (!cap) {
+      const color =
+        "color" in material && material.color instanceof THREE.Color
+          ? material.color
+          : new THREE.Color(0xcccccc)
+      cap = new THREE.MeshStandardMaterial({
+        color,
+        roughness: 0.8,
+        side: THREE.DoubleSide,
+      })
+      this.capMaterials.set(material, cap)
+    }
+    return cap
+  }
+}
+
+// The visibility of root itself is ignored, since the viewer hides the
+// models while the path tracer reads their cut copy
+function collectTriangles(root: THREE.Object3D): MeshTriangles[] {
+  root.updateWorldMatrix(true, true)
+  const meshes: MeshTriangles[] = []
+  const visit = (child: THREE.Object3D) => {
+    for (const grandchild of child.children) {
+      if (grandchild.visible) visit(grandchild)
+    }
+    if (!(child instanceof THREE.Mesh)) return
+    const position = child.geometry.getAttribute("position")
+    if (!position) return
+
+    const positions = new Float32Array(position.count * 3)
+    const vertex = new THREE.Vector3()
+    for (let i = 0; i < position.count; i++) {
+      child.getVertexPosition(i, vertex).applyMatrix4(child.matrixWorld)
+      vertex.toArray(positions, i * 3)
+    }
+    const indices =
+      child.geometry.index?.array ??
+      Array.from({ length: position.count }, (_, i) => i)
+    meshes.push({ mesh: child, positions, indices })
+  }
+  visit(root)
+  return meshes
+}
+
+// Points closer than this are joined when chaining cut segments
+function weldTolerance(root: THREE.Object3D): number {
+  const size = new THREE.Box3().setFromObject(root).getSize(new THREE.Vector3())
+  return Math.max(size.length() * 1e-6, 1e-9)
+}
+
+// Segments where the plane crosses the triangles. Each edge is interpolated
+// from its lower vertex index, so neighbouring triangles produce the same
+// points
+function sliceTriangles(
+  { positions, indices }: MeshTriangles,
+  plane: THREE.Plane,
+): THREE.Line3[] {
+  const segments: THREE.Line3[] = []
+  const point = new THREE.Vector3()
+  const distance = (index: number) =>
+    plane.distanceToPoint(point.fromArray(positions, index * 3))
+  const edgePoint = (a: number, b: number) => {
+    const [from, to] = a < b ? [a, b] : [b, a]
+    const start = distance(from)
+    const t = start / (start - distance(to))
+    return new THREE.Vector3()
+      .fromArray(positions, from * 3)
+      .lerp(new THREE.Vector3().fromArray(positions, to * 3), t)
+  }
+
+  for (let i = 0; i + 2 < indices.length; i += 3) {
+    const corners = [indices[i], indices[i + 1], indices[i + 2]]
+    const above = corners.map((index) => distance(index) >= 0)
+    const points: THREE.Vector3[] = []
+    for (let e = 0; e < 3; e++) {
+      const next = (e + 1) % 3
+      if (above[e] !== above[next]) {
+        points.push(edgePoint(corners[e], corners[next]))
+      }
+    }
+    if (points.length === 2) segments.push(new THREE.Line3(...points))
+  }
+  return segments
+}
+
+function clipSegment(
+  segment: THREE.Line3,
+  planes: THREE.Plane[],
+): THREE.Line3 | null {
+  const clipped = segment.clone()
+  for (const plane of planes) {
+    const start = plane.distanceToPoint(clipped.start)
+    const end = plane.distanceToPoint(clipped.end)
+    if (start < 0 && end < 0) return null
+    if (start >= 0 && end >= 0) continue
+    const point = clipped.at(start / (start - end), new THREE.Vector3())
+    if (start < 0) clipped.start.copy(point)
+    else clipped.end.copy(point)
+  }
+  return clipped
+}
+
+// Chains segments that share end points into closed loops and open polylines
+function joinSegments(segments: THREE.Line3[], tolerance: number): Polyline[] {
+  const key = (point: THREE.Vector3) =>
+    `${Math.round(point.x / tolerance)},${Math.round(point.y / tolerance)},${Math.round(point.z / tolerance)}`
+  const byPoint = new Map<string, number[]>()
+  segments.forEach((segment, i) => {
+    for (const point of [segment.start, segment.end]) {
+      const list = byPoint.get(key(point))
+      if (list) list.push(i)
+      else byPoint.set(key(point), [i])
+    }
+  })
+
+  const used = new Uint8Array(segments.length)
+  // Follows unused segments from the last point of the chain
+  const extend = (chain: THREE.Vector3[]) => {
+    for (;;) {
+      const last = chain[chain.length - 1]
+      const next = byPoint.get(key(last))?.find((i) => !used[i])
+      if (next === undefined) return
+      used[next] = 1
+      const { start, end } = segments[next]
+      chain.push(key(start) === key(last) ? end : start)
+    }
+  }
+
+  const polylines: Polyline[] = []
+  segments.forEach((segment, i) => {
+    if (used[i]) return
+    used[i] = 1
+    const chain = [segment.start, segment.end]
+    extend(chain)
+    if (chain.length > 3 && key(chain[0]) === key(chain[chain.length - 1])) {
+      chain.pop()
+      polylines.push({ points: chain, closed: true })
+      return
+    }
+    chain.reverse()
+    extend(chain)
+    polylines.push({ points: chain, closed: false })
+  })
+  return polylines
+}
+
+// Triangulates the loops in the plane, with loops nested an odd number of
+// times inside others as holes. The cap faces the side that was cut away
+function capGeometry(
+  loops: Polyline[],
+  plane: THREE.Plane,
+  others: THREE.Plane[],
+): THREE.BufferGeometry | null {
+  if (loops.length === 0) return null
+
+  const normal = plane.normal.clone().negate()
+  const u = new THREE.Vector3()
+    .crossVectors(
+      normal,
+      Math.abs(normal.x) < 0.9
+        ? new THREE.Vector3(1, 0, 0)
+        : new THREE.Vector3(0, 1, 0),
+    )
+    .normalize()
+  const v = new THREE.Vector3().crossVectors(normal, u)
+  const flat = loops.map(({ points }) =>
+    points.map((point) => new THREE.Vector2(point.dot(u), point.dot(v))),
+  )
+  const depth = flat.map(
+    (loop, i) =>
+      flat.filter((other, j) => j !== i && containsPoint(other, loop[0]))
+        .length,
+  )
+
+  const positions: number[] = []
+  const edge1 = new THREE.Vector3()
+  const edge2 = new THREE.Vector3()
+  flat.forEach((contour, i) => {
+    if (depth[i] % 2 !== 0) return
+    const holes = flat
+      .map((_, j) => j)
+      .filter(
+        (j) => depth[j] === depth[i] + 1 && containsPoint(contour, flat[j][0]),
+      )
+    const points = [i, ...holes].flatMap((j) => loops[j].points)
+    const faces = THREE.ShapeUtils.triangulateShape(
+      [...contour],
+      holes.map((j) => [...flat[j]]),
+    )
+    for (const face of faces) {
+      const polygon = clipPolygon(
+        face.map((index) => points[index].toArray()),
+        others,
+      )
+      for (const [a, b, c] of fanTriangles(polygon)) {
+        edge1.fromArray(b).sub(new THREE.Vector3().fromArray(a))
+        edge2.fromArray(c).sub(new THREE.Vector3().fromArray(a))
+        const facing = edge1.cross(edge2).dot(normal) >= 0
+        positions.push(...a, ...(facing ? [...b, ...c] : [...c, ...b]))
+      }
+    }
+  })
+  if (positions.length === 0) return null
+
+  const geometry = new THREE.BufferGeometry()
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(positions, 3),
+  )
+  const normals = new Float32Array(positions.length)
+  for (let i = 0; i < normals.length; i += 3) normal.toArray(normals, i)
+  geometry.setAttribute("normal", new THREE.BufferAttribute(normals, 3))
+  return geometry
+}
+
+function containsPoint(polygon: THREE.Vector2[], point: THREE.Vector2) {
+  let inside = false
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i]
+    const b = polygon[j]
+    if (
+      a.y > point.y !== b.y > point.y &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+    ) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+// Cuts the mesh with the planes, interpolating its normals, texture
+// coordinates and colors along the cut edges. Material groups are kept
+function clipMeshGeometry(
+  { mesh, positions, indices }: MeshTriangles,
+  planes: THREE.Plane[],
+): THREE.BufferGeometry | null {
+  const source = mesh.geometry
+  const names = ["normal", "uv", "color"].filter((name) =>
+    source.hasAttribute(name),
+  )
+  const attributes = names.map((name) => source.getAttribute(name))
+  const normalMatrix = new THREE.Matrix3().getNormalMatrix(mesh.matrixWorld)
+  const normal = new THREE.Vector3()
+
+  const vertex = (index: number): ClipVertex => {
+    const values = Array.from(positions.subarray(index * 3, index * 3 + 3))
+    attributes.forEach((attribute, a) => {
+      if (names[a] === "normal") {
+        normal.fromBufferAttribute(attribute, index).applyMatrix3(normalMatrix)
+        values.push(...normal.toArray())
+        return
+      }
+      for (let c = 0; c < attribute.itemSize; c++) {
+        values.push(attribute.getComponent(index, c))
+      }
+    })
+    return values
+  }
+
+  const output: number[][] = [[], ...names.map(() => [])]
+  const sizes = [3, ...attributes.map((attribute) => attribute.itemSize)]
+  const groups =
+    source.groups.length > 0
+      ? source.groups
+      : [{ start: 0, count: indices.length, materialIndex: 0 }]
+  const geometry = new THREE.BufferGeometry()
+  let written = 0
+
+  for (const group of groups) {
+    const groupStart = written
+    const end = Math.min(group.start + group.count, indices.length)
+    for (let i = group.start; i + 2 < end; i += 3) {
+      const polygon = clipPolygon(
+        [vertex(indices[i]), vertex(indices[i + 1]), vertex(indices[i + 2])],
+        planes,
+      )
+      for (const triangle of fanTriangles(polygon)) {
+        for (const values of triangle) {
+          let offset = 0
+          sizes.forEach((size, a) => {
+            output[a].push(...values.slice(offset, offset + size))
+            offset += size
+          })
+        }
+        written += 3
+      }
+    }
+    if (source.groups.length > 0 && written > groupStart) {
+      geometry.addGroup(groupStart, written - groupStart, group.materialIndex)
+    }
+  }
+  if (written === 0) {
+    geometry.dispose()
+    return null
+  }
+
+  geometry.setAttribute(
+    "position",
+    new THREE.Float32BufferAttribute(output[0], 3),
+  )
+  names.forEach((name, a) => {
+    geometry.setAttribute(
+      name,
+      new THREE.Float32BufferAttribute(output[a + 1], sizes[a + 1]),
+    )
+  })
+  if (geometry.hasAttribute("normal")) normalizeNormals(geometry)
+  return geometry
+}
+
+function normalizeNormals(geometry: THREE.BufferGeometry): void {
+  const attribute = geometry.getAttribute("normal")
+  const normal = new THREE.Vector3()
+  for (let i = 0; i < attribute.count; i++) {
+    normal.fromBufferAttribute(attribute, i).normalize()
+    attribute.setXYZ(i, normal.x, normal.y, normal.z)
+  }
+}
+
+// Sutherland–Hodgman clipping of a convex polygon, keeping the side of each
+// plane its normal points to
+function clipPolygon(
+  polygon: ClipVertex[],
+  planes: THREE.Plane[],
+): ClipVertex[] {
+  const point = new THREE.Vector3()
+  let result = polygon
+  for (const plane of planes) {
+    const clipped: ClipVertex[] = []
+    result.forEach((current, i) => {
+      const next = result[(i + 1) % result.length]
+      const d0 = plane.distanceToPoint(point.fromArray(current))
+      const d1 = plane.distanceToPoint(point.fromArray(next))
+      if (d0 >= 0) clipped.push(current)
+      if (d0 >= 0 !== d1 >= 0) {
+        const t = d0 / (d0 - d1)
+        clipped.push(current.map((value, c) => value + (next[c] - value) * t))
+      }
+    })
+    result = clipped
+    if (result.length < 3) return []
+  }
+  return result
+}
+
+function fanTriangles(polygon: ClipVertex[]): ClipVertex[][] {
+  const triangles: ClipVertex[][] = []
+  for (let i = 1; i + 1 < polygon.length; i++) {
+    triangles.push([polygon[0], polygon[i], polygon[i + 1]])
+  }
+  return triangles
+}
+
+function disposeObject(object: THREE.Object3D): void {
+  object.traverse((child) => {
+    if (child instanceof THREE.Mesh || child instanceof THREE.LineSegments) {
+      child.geometry.dispose()
+      child.material.dispose()
+    }
+  })
+}
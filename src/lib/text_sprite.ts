@@ -0,0 +1,54 @@
+import * as THREE from "three"
+
+export function makeTextSprite(message: string): THREE.Sprite {
+  const canvas = document.createElement("canvas")
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Failed to get canvas context")
+
+  const fontSize = 20
+  const scaleFactor = 4
+  const pixelRatio = (window.devicePixelRatio || 1) * scaleFactor
+
+  context.font = `${fontSize}px Arial`
+  const metrics = context.measureText(message)
+  const textWidth = metrics.width
+
+  const padding = 8
+  const width = textWidth + padding * 2
+  const height = fontSize + padding * 2
+
+  canvas.width = width * pixelRatio
+  canvas.height = height * pixelRatio
+  canvas.style.width = `${width}px`
+  canvas.style.height = `${height}px`
+
+  context.scale(pixelRatio, pixelRatio)
+
+  context.fillStyle = "white"
+  context.strokeStyle = "black"
+  context.lineWidth = 1
+  context.textAlign = "center"
+  context.textBaseline = "middle"
+
+  context.imageSmoothingEnabled = true
+  context.imageSmoothingQuality = "high"
+
+  const centerX = width / 2
+  const centerY = height / 2
+
+  context.strokeText(message, centerX, centerY)
+  context.fillText(message, centerX, centerY)
+
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.generateMipmaps = false
+  texture.minFilter = THREE.LinearFilter
+  texture.magFilter = THREE.LinearFilter
+
+  const material = new THREE.SpriteMaterial({ map: texture, transparent: true })
+  const sprite = new THREE.Sprite(material)
+
+  const aspect = canvas.width / canvas.height
+  const baseScale = 0.1
+  sprite.scale.set(baseScale * aspect, baseScale, 1)
+  return sprite
+}
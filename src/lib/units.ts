@@ -0,0 +1,33 @@
+export const lengthUnits = ["mm", "cm", "m", "in", "ft"] as const
+
+export type LengthUnit = (typeof lengthUnits)[number]
+
+export const metersPerUnit: Record<LengthUnit, number> = {
+  mm: 0.001,
+  cm: 0.01,
+  m: 1,
+  in: 0.0254,
+  ft: 0.3048,
+}
+
+const powerSuffixes = ["", "", "²", "³"]
+
+// Formats a length, area (power 2) or volume (power 3) given in meters
+export function formatLength(
+  meters: number,
+  unit: LengthUnit,
+  power: number = 1,
+): string {
+  const value = meters / metersPerUnit[unit] ** power
+  const digits = value !== 0 && Math.abs(value) < 1 ? 3 : 2
+  return `${value.toFixed(digits)} ${unit}${powerSuffixes[power] ?? ""}`
+}
+
+// The unit whose length matches the given size within rounding, if any
+export function unitFromMeters(meters: number): LengthUnit | null {
+  return (
+    lengthUnits.find(
+      (unit) => Math.abs(meters / metersPerUnit[unit] - 1) < 1e-3,
+    ) ?? null
+  )
+}
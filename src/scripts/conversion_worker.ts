@@ -0,0 +1,18 @@
+import { parentPort } from "node:worker_threads"
+import {
+  type ConversionTask,
+  type ConversionWorkerResponse,
+  runConversionTask,
+} from "./file_conversion"
+
+parentPort?.on("message", async (task: ConversionTask) => {
+  let response: ConversionWorkerResponse
+  try {
+    response = { repairResults: await runConversionTask(task) }
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) }
+  }
+  parentPort?.postMessage(response)
+})
+
+parentPort?.postMessage({ ready: true } satisfies ConversionWorkerResponse)
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict"
+import * as fs from "node:fs"
+import os from "node:os"
+import * as path from "node:path"
+import { afterEach, beforeEach, test } from "node:test"
+
+import { convertObjZipsToGlb, gatherCompanionFiles } from "./file_conversion"
+
+let workDir: string
+let warnings: string[]
+
+const log = {
+  info: () => {},
+  verbose: () => {},
+  warn: (message: string) => warnings.push(message),
+  error: () => {},
+}
+
+beforeEach(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "companion-test-"))
+  warnings = []
+})
+
+afterEach(() => {
+  fs.rmSync(workDir, { recursive: true, force: true })
+})
+
+test("copies companion files found elsewhere in the archive", () => {
+  const rootDir = path.join(workDir, "archive")
+  fs.mkdirSync(path.join(rootDir, "models"), { recursive: true })
+  fs.mkdirSync(path.join(rootDir, "textures"))
+  fs.writeFileSync(path.join(rootDir, "models", "box.obj"), "mtllib box.mtl\n")
+  fs.writeFileSync(path.join(rootDir, "box.mtl"), "map_Kd textures/wood.png\n")
+  fs.writeFileSync(path.join(rootDir, "textures", "wood.png"), "png")
+
+  gatherCompanionFiles(path.join(rootDir, "models", "box.obj"), rootDir, log)
+
+  assert.ok(fs.existsSync(path.join(rootDir, "models", "box.mtl")))
+  assert.ok(fs.existsSync(path.join(rootDir, "models", "textures", "wood.png")))
+  assert.deepEqual(warnings, [])
+})
+
+test("ignores references that point outside the archive", () => {
+  const rootDir = path.join(workDir, "archive")
+  fs.mkdirSync(rootDir)
+  fs.writeFileSync(
+    path.join(rootDir, "box.obj"),
+    "mtllib ../../escaped.mtl\nmtllib ../outside/box.mtl\n",
+  )
+  fs.writeFileSync(path.join(rootDir, "escaped.mtl"), "newmtl wood\n")
+  fs.mkdirSync(path.join(workDir, "outside"))
+  fs.writeFileSync(path.join(workDir, "outside", "box.mtl"), "newmtl wood\n")
+
+  gatherCompanionFiles(path.join(rootDir, "box.obj"), rootDir, log)
+
+  assert.ok(!fs.existsSync(path.join(workDir, "..", "escaped.mtl")))
+  assert.deepEqual(fs.readdirSync(workDir).sort(), ["archive", "outside"])
+  assert.deepEqual(fs.readdirSync(path.join(workDir, "outside")), ["box.mtl"])
+  assert.equal(warnings.length, 2)
+})
+
+test("converts with a pool of worker threads", async () => {
+  const input = path.join(workDir, "input")
+  const output = path.join(workDir, "output")
+  fs.mkdirSync(input)
+  fs.writeFileSync(
+    path.join(input, "triangle.obj"),
+    "v 0 0 0\nv 1 0 0\nv 0 1 0\nf 1 2 3\n",
+  )
+
+  const summary = await convertObjZipsToGlb(input, output, {
+    jobs: 2,
+    verbosity: "quiet",
+  })
+
+  assert.equal(summary.converted, 1)
+  assert.equal(summary.failed, 0)
+  assert.ok(fs.statSync(path.join(output, "triangle.glb")).size > 0)
+})
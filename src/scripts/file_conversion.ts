@@ -1,154 +1,1007 @@
+import { createHash } from "node:crypto"
 import * as fs from "node:fs"
 import os from "node:os"
 import * as path from "node:path"
+import { fileURLToPath, pathToFileURL } from "node:url"
+import { parseArgs } from "node:util"
+import { isMainThread, Worker } from "node:worker_threads"
+import { NodeIO } from "@gltf-transform/core"
 import AdmZip from "adm-zip"
 import obj2gltf from "obj2gltf"
 
 import { findFiles } from "../lib/fs_utils"
 import {
-  ObjGeometryRepairer,
-  type RepairOptions,
-  type RepairResults,
-} from "../lib/geometry_fix_obj"
+  addRepairs,
+  emptyRepairs,
+  type MeshRepairOptions,
+  type MeshRepairResults,
+  optionalRepairOperations,
+  repairOperations,
+} from "../lib/geometry_fix_core"
+import { ObjGeometryRepairer } from "../lib/geometry_fix_obj"
+import { meshDataToDocument, parseMtl } from "../lib/gltf_builder"
+import {
+  type CompressionMethod,
+  compressDocument,
+  compressionMethods,
+  createNodeIO,
+  isCompressionMethod,
+} from "../lib/gltf_compression"
+import { addLodLevels, parseLodRatios } from "../lib/gltf_lod"
+
+export type Verbosity = "quiet" | "normal" | "verbose"
+export type OverwritePolicy = "overwrite" | "skip" | "error"
+
+export interface ConversionOptions {
+  repair?: boolean
+  repairOptions?: MeshRepairOptions
+  // Simplification ratios of the MSFT_lod levels added to every mesh
+  lodRatios?: number[]
+  compression?: CompressionMethod | null
+  dryRun?: boolean
+  overwrite?: OverwritePolicy
+  verbosity?: Verbosity
+  jobs?: number
+  manifest?: string | null
+  retries?: number
+  failedOnly?: boolean
+  // Keeps stdout free for a JSON summary written there
+  logToStderr?: boolean
+}
+
+export interface ConvertedAsset {
+  archive: string
+  source: string
+  output: string
+  status: "converted" | "skipped" | "unchanged" | "failed" | "planned"
+  repairResults?: MeshRepairResults
+  error?: string
+}
+
+export interface ConversionSummary {
+  input: string
+  output: string
+  repair: boolean
+  dryRun: boolean
+  startedAt: string
+  finishedAt: string
+  converted: number
+  skipped: number
+  failed: number
+  assets: ConvertedAsset[]
+}
+
+interface Logger {
+  info: (message: string) => void
+  verbose: (message: string) => void
+  warn: (message: string) => void
+  error: (message: string) => void
+}
+
+function createLogger(verbosity: Verbosity, logToStderr = false): Logger {
+  const print = logToStderr ? console.error : console.log
+  return {
+    info: (message) => {
+      if (verbosity !== "quiet") print(message)
+    },
+    verbose: (message) => {
+      if (verbosity === "verbose") print(message)
+    },
+    warn: (message) => {
+      if (verbosity !== "quiet") console.warn(message)
+    },
+    error: (message) => console.error(message),
+  }
+}
 
 function extractZip(zipPath: string, targetDir: string) {
   const zip = new AdmZip(zipPath)
   zip.extractAllTo(targetDir, true)
 }
 
-async function convertObjToGlb(objFile: string, outputPath: string) {
-  try {
-    const glbBuffer = await obj2gltf(objFile, { binary: true })
-    fs.writeFileSync(outputPath, glbBuffer)
-    console.log(`Saved ${outputPath}`)
-  } catch (error) {
-    console.error(`Failed to convert ${objFile}:`, error)
-  }
+async function convertObjToGlb(
+  objFile: string,
+  outputPath: string,
+  log: Logger,
+) {
+  const glbBuffer = await obj2gltf(objFile, { binary: true, logger: log.warn })
+  fs.writeFileSync(outputPath, glbBuffer)
+  log.info(`Saved ${outputPath}`)
 }
 
 async function convertObjToGlbWithRepair(
   objFile: string,
   outputPath: string,
-  options: RepairOptions = {},
-): Promise<RepairResults | null> {
+  options: MeshRepairOptions,
+  log: Logger,
+): Promise<MeshRepairResults> {
   const objContent = fs.readFileSync(objFile, "utf-8")
   const repairer = new ObjGeometryRepairer()
   const meshDataArray = repairer.parseObjFiles(objContent)
 
-  const totalResults: RepairResults = {
-    mergedVertices: 0,
-    removedLooseVertices: 0,
-    removedDegenerateFaces: 0,
-    fixedNonManifoldEdges: 0,
-    totalIssuesFound: 0,
-    totalIssuesFixed: 0,
-  }
+  const totalResults: MeshRepairResults = { repairs: emptyRepairs() }
 
-  for (let i = 0; i < meshDataArray.length; i++) {
-    const meshData = meshDataArray[i]
+  for (const meshData of meshDataArray) {
     const results = repairer.repairMeshData(meshData, {
       ...options,
       onProgress: (progress, operation) => {
-        console.log(`    ${operation}: ${progress.toFixed(1)}%`)
+        log.verbose(`    ${operation}: ${progress.toFixed(1)}%`)
       },
     })
+    addRepairs(totalResults.repairs, results.repairs)
+  }
+
+  const objDir = path.dirname(objFile)
+  const materials = (meshDataArray[0]?.materialLibraries ?? [])
+    .map((library) => path.join(objDir, library))
+    .filter((mtlPath) => fs.existsSync(mtlPath))
+    .flatMap((mtlPath) => parseMtl(fs.readFileSync(mtlPath, "utf-8")))
 
-    totalResults.mergedVertices += results.mergedVertices
-    totalResults.removedLooseVertices += results.removedLooseVertices
-    totalResults.removedDegenerateFaces += results.removedDegenerateFaces
-    totalResults.fixedNonManifoldEdges += results.fixedNonManifoldEdges
-    totalResults.totalIssuesFound += results.totalIssuesFound
-    totalResults.totalIssuesFixed += results.totalIssuesFixed
+  const document = meshDataToDocument(meshDataArray, {
+    materials,
+    readTexture: (uri) => {
+      const texturePath = path.join(objDir, uri)
+      return fs.existsSync(texturePath) ? fs.readFileSync(texturePath) : null
+    },
+  })
+  const glbBuffer = await new NodeIO().writeBinary(document)
+  fs.writeFileSync(outputPath, glbBuffer)
+
+  log.info(`Converted and repaired: ${path.basename(outputPath)}`)
+  for (const [operation, count] of Object.entries(totalResults.repairs)) {
+    if (count > 0 && operation !== "recalculateNormals") {
+      log.info(`- ${operation}: ${count}`)
+    }
   }
 
-  const tempObjPath = objFile.replace(".obj", "_repaired.obj")
-  const repairedObjContent = meshDataArray
-    .map((mesh) => repairer.meshDataToObj(mesh))
-    .join("\n")
-  fs.writeFileSync(tempObjPath, repairedObjContent)
+  return totalResults
+}
 
-  try {
-    const glbBuffer = await obj2gltf(tempObjPath, { binary: true })
-    fs.writeFileSync(outputPath, glbBuffer)
-
-    console.log(`Converted and repaired: ${path.basename(outputPath)}`)
-    if (totalResults.totalIssuesFixed > 0) {
-      console.log(`Fixed ${totalResults.totalIssuesFixed} geometry issues:`)
-      if (totalResults.mergedVertices > 0)
-        console.log(
-          `- Merged ${totalResults.mergedVertices} duplicate vertices`,
-        )
-      if (totalResults.removedDegenerateFaces > 0)
-        console.log(
-          `- Removed ${totalResults.removedDegenerateFaces} degenerate faces`,
-        )
-      if (totalResults.fixedNonManifoldEdges > 0)
-        console.log(
-          `- Fixed ${totalResults.fixedNonManifoldEdges} non-manifold edges`,
-        )
-      if (totalResults.removedLooseVertices > 0)
-        console.log(
-          `- Removed ${totalResults.removedLooseVertices} loose vertices`,
+interface ObjSource {
+  objFile: string
+  archive: string
+  source: string
+}
+
+const maxArchiveDepth = 16
+const companionStatement = /^(mtllib|map_\w+|bump|norm|disp|decal|refl)\s/i
+
+function extractObjSources(
+  zipPath: string,
+  targetDir: string,
+  archive: string,
+  depth: number,
+  log: Logger,
+): ObjSource[] {
+  extractZip(zipPath, targetDir)
+
+  const sources = findFiles(targetDir, ".obj").map((objFile) => ({
+    objFile,
+    archive,
+    source: path.relative(targetDir, objFile),
+  }))
+
+  const nestedZips = findFiles(targetDir, ".zip")
+  if (nestedZips.length > 0 && depth >= maxArchiveDepth) {
+    log.warn(`Not extracting archives nested deeper than ${archive}`)
+    return sources
+  }
+
+  // Nested archives are extracted beside themselves so that files shipped in
+  // the enclosing archive stay reachable from the OBJs inside them
+  for (const nestedZip of nestedZips) {
+    sources.push(
+      ...extractObjSources(
+        nestedZip,
+        `${nestedZip}.d`,
+        path.join(archive, path.relative(targetDir, nestedZip)),
+        depth + 1,
+        log,
+      ),
+    )
+  }
+
+  return sources
+}
+
+// Files named by the mtllib and texture statements of an OBJ or MTL file
+function companionNames(filePath: string): string[] {
+  const names: string[] = []
+  for (const line of fs.readFileSync(filePath, "utf-8").split(/\r?\n/)) {
+    const trimmed = line.trim()
+    if (!companionStatement.test(trimmed)) continue
+
+    const parts = trimmed.split(/\s+/)
+    names.push(
+      ...(parts[0] === "mtllib" ? parts.slice(1) : [parts[parts.length - 1]]),
+    )
+  }
+  return names
+}
+
+// The MTL files and textures an OBJ uses, directly or through its MTL files
+function listCompanionFiles(
+  filePath: string,
+  found: Set<string> = new Set(),
+): string[] {
+  const dir = path.dirname(filePath)
+  for (const name of companionNames(filePath)) {
+    const companion = path.resolve(dir, name)
+    if (found.has(companion) || !fs.existsSync(companion)) continue
+    if (!fs.statSync(companion).isFile()) continue
+
+    found.add(companion)
+    if (name.toLowerCase().endsWith(".mtl")) {
+      listCompanionFiles(companion, found)
+    }
+  }
+  return [...found]
+}
+
+// Whether filePath resolves to rootDir or a file below it
+function isInsideDir(filePath: string, rootDir: string): boolean {
+  const relative = path.relative(path.resolve(rootDir), path.resolve(filePath))
+  return (
+    relative !== ".." &&
+    !relative.startsWith(`..${path.sep}`) &&
+    !path.isAbsolute(relative)
+  )
+}
+
+function findCompanionFile(
+  name: string,
+  startDir: string,
+  rootDir: string,
+): string | null {
+  let dir = startDir
+  while (true) {
+    for (const candidate of [
+      path.resolve(dir, name),
+      path.resolve(dir, path.basename(name)),
+    ]) {
+      if (
+        isInsideDir(candidate, rootDir) &&
+        fs.existsSync(candidate) &&
+        fs.statSync(candidate).isFile()
+      ) {
+        return candidate
+      }
+    }
+    if (path.relative(rootDir, dir) === "" || dir === path.dirname(dir)) {
+      return null
+    }
+    dir = path.dirname(dir)
+  }
+}
+
+// Copies the MTL files and textures an OBJ or MTL refers to next to it when
+// they were shipped elsewhere in the archive. References that point outside
+// rootDir are skipped, as they come from untrusted files
+export function gatherCompanionFiles(
+  filePath: string,
+  rootDir: string,
+  log: Logger,
+): void {
+  const dir = path.dirname(filePath)
+
+  for (const name of companionNames(filePath)) {
+    const target = path.resolve(dir, name)
+    if (!isInsideDir(target, rootDir)) {
+      log.warn(
+        `Ignoring ${name} referenced by ${path.basename(filePath)}: outside the archive`,
+      )
+      continue
+    }
+    if (!fs.existsSync(target)) {
+      const found = findCompanionFile(name, dir, rootDir)
+      if (!found) {
+        log.verbose(`Missing ${name} referenced by ${path.basename(filePath)}`)
+        continue
+      }
+      fs.mkdirSync(path.dirname(target), { recursive: true })
+      fs.copyFileSync(found, target)
+    }
+    if (name.toLowerCase().endsWith(".mtl")) {
+      gatherCompanionFiles(target, rootDir, log)
+    }
+  }
+}
+
+function uniqueOutputName(
+  source: ObjSource,
+  usedNames: Set<string>,
+  previousName?: string,
+): string {
+  if (previousName) return previousName
+
+  const baseName = path.parse(source.objFile).name
+  const candidates = [baseName]
+  if (source.archive) {
+    candidates.push(`${path.parse(source.archive).name}_${baseName}`)
+  }
+
+  let name = candidates.find((c) => !usedNames.has(c.toLowerCase()))
+  for (let i = 2; !name; i++) {
+    const numbered = `${candidates[candidates.length - 1]}_${i}`
+    if (!usedNames.has(numbered.toLowerCase())) name = numbered
+  }
+
+  usedNames.add(name.toLowerCase())
+  return `${name}.glb`
+}
+
+export interface ConversionTask {
+  objFile: string
+  outputPath: string
+  repair: boolean
+  repairOptions: MeshRepairOptions
+  lodRatios: number[]
+  compression: CompressionMethod | null
+  verbosity: Verbosity
+  logToStderr: boolean
+}
+
+export async function runConversionTask(
+  task: ConversionTask,
+): Promise<MeshRepairResults | undefined> {
+  const log = createLogger(task.verbosity, task.logToStderr)
+  let results: MeshRepairResults | undefined
+  if (task.repair) {
+    results = await convertObjToGlbWithRepair(
+      task.objFile,
+      task.outputPath,
+      task.repairOptions,
+      log,
+    )
+  } else {
+    await convertObjToGlb(task.objFile, task.outputPath, log)
+  }
+
+  if (task.lodRatios.length > 0 || task.compression) {
+    await postProcessGlb(task, log)
+  }
+  return results
+}
+
+async function postProcessGlb(task: ConversionTask, log: Logger) {
+  const io = await createNodeIO()
+  const document = await io.read(task.outputPath)
+
+  if (task.lodRatios.length > 0) {
+    const { nodes, faces } = addLodLevels(document, task.lodRatios, {
+      mergeTolerance: task.repairOptions.mergeTolerance,
+    })
+    log.info(`Added ${task.lodRatios.length} LOD levels to ${nodes} nodes`)
+    log.verbose(`- faces per level: ${faces.join(", ")}`)
+  }
+  if (task.compression) {
+    await compressDocument(document, task.compression)
+    log.info(`Compressed geometry with ${task.compression}`)
+  }
+
+  fs.writeFileSync(task.outputPath, await io.writeBinary(document))
+}
+
+interface PoolJob {
+  task: ConversionTask
+  resolve: (results: MeshRepairResults | undefined) => void
+  reject: (error: Error) => void
+}
+
+class ConversionPool {
+  private workerUrl: URL
+  private workerSource: string | null
+  private idle: Worker[] = []
+  private busy = new Map<Worker, PoolJob>()
+  private ready = new WeakSet<Worker>()
+  private queue: PoolJob[] = []
+  private failure: Error | null = null
+
+  constructor(size: number) {
+    // Resolve the worker next to this module so it runs from source and from a build
+    const extension = path.extname(fileURLToPath(import.meta.url))
+    this.workerUrl = new URL(`./conversion_worker${extension}`, import.meta.url)
+    // Worker threads do not inherit the TypeScript loader of a run from
+    // source, so such workers register tsx before loading the worker module
+    this.workerSource =
+      extension === ".ts"
+        ? `import(${JSON.stringify(import.meta.resolve("tsx/esm/api"))})
+            .then(({ register }) => register())
+            .then(() => import(${JSON.stringify(this.workerUrl.href)}))`
+        : null
+    for (let i = 0; i < size; i++) {
+      this.idle.push(this.spawn())
+    }
+  }
+
+  run(task: ConversionTask): Promise<MeshRepairResults | undefined> {
+    return new Promise((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure)
+        return
+      }
+      this.queue.push({ task, resolve, reject })
+      this.dispatch()
+    })
+  }
+
+  async close(): Promise<void> {
+    const workers = [...this.idle, ...this.busy.keys()]
+    this.idle = []
+    this.busy.clear()
+    await Promise.all(workers.map((worker) => worker.terminate()))
+  }
+
+  private spawn(): Worker {
+    const worker = this.workerSource
+      ? new Worker(this.workerSource, { eval: true })
+      : new Worker(this.workerUrl)
+
+    worker.on("message", (message: ConversionWorkerResponse) => {
+      if (message.ready) {
+        this.ready.add(worker)
+        return
+      }
+
+      const job = this.busy.get(worker)
+      if (!job) return
+      this.busy.delete(worker)
+      this.idle.push(worker)
+
+      if (message.error !== undefined) {
+        job.reject(new Error(message.error))
+      } else {
+        job.resolve(message.repairResults)
+      }
+      this.dispatch()
+    })
+
+    worker.on("error", (error) => this.fail(worker, error))
+
+    // Workers can also exit without an error, which would otherwise leave
+    // their job pending. Workers the pool already let go of are ignored
+    worker.on("exit", (code) => {
+      if (this.busy.has(worker) || this.idle.includes(worker)) {
+        this.fail(
+          worker,
+          new Error(`Conversion worker exited with code ${code}`),
         )
+      }
+    })
+
+    return worker
+  }
+
+  private fail(worker: Worker, error: Error): void {
+    const job = this.busy.get(worker)
+    this.busy.delete(worker)
+    this.idle = this.idle.filter((w) => w !== worker)
+    job?.reject(error)
+
+    // A worker that crashes mid-job is replaced; one that never started
+    // would fail again, so the whole pool is shut down instead
+    if (this.ready.has(worker)) {
+      this.idle.push(this.spawn())
+      this.dispatch()
+    } else {
+      this.failure = error
+      for (const queued of this.queue.splice(0)) queued.reject(error)
     }
+  }
 
-    return totalResults
-  } catch (error) {
-    console.error(`Failed to convert ${objFile}: ${error}`)
-    return null
-  } finally {
-    if (fs.existsSync(tempObjPath)) {
-      fs.unlinkSync(tempObjPath)
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.pop() as Worker
+      const job = this.queue.shift() as PoolJob
+      this.busy.set(worker, job)
+      worker.postMessage(job.task)
     }
   }
 }
 
+export interface ConversionWorkerResponse {
+  ready?: boolean
+  repairResults?: MeshRepairResults
+  error?: string
+}
+
+interface ManifestOutput {
+  archive: string
+  source: string
+  output: string
+}
+
+interface ManifestEntry {
+  hash: string
+  status: "converted" | "failed"
+  attempts: number
+  outputs: ManifestOutput[]
+  error?: string
+  updatedAt: string
+}
+
+interface Manifest {
+  version: 1
+  sources: Record<string, ManifestEntry>
+}
+
+function loadManifest(manifestPath: string): Manifest {
+  if (!fs.existsSync(manifestPath)) return { version: 1, sources: {} }
+  const manifest = JSON.parse(fs.readFileSync(manifestPath, "utf8"))
+  if (manifest?.version !== 1 || typeof manifest.sources !== "object") {
+    throw new Error(`Unsupported manifest: ${manifestPath}`)
+  }
+  return manifest as Manifest
+}
+
+function saveManifest(manifestPath: string, manifest: Manifest): void {
+  // Write through a temporary file so a crash never leaves a truncated manifest
+  const tmpPath = `${manifestPath}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(manifest, null, 2), "utf8")
+  fs.renameSync(tmpPath, manifestPath)
+}
+
+// Hashes a zip, or an OBJ together with the MTL files and textures it uses so
+// that editing any of them converts the OBJ again
+async function hashSource(filePath: string, settings: string): Promise<string> {
+  const hash = createHash("sha256").update(settings)
+  const companions = filePath.toLowerCase().endsWith(".obj")
+    ? listCompanionFiles(filePath)
+    : []
+
+  for (const file of [filePath, ...companions]) {
+    hash.update(path.relative(path.dirname(filePath), file))
+    await new Promise<void>((resolve, reject) => {
+      fs.createReadStream(file)
+        .on("data", (chunk) => hash.update(chunk))
+        .on("error", reject)
+        .on("end", resolve)
+    })
+  }
+  return hash.digest("hex")
+}
+
+async function forEachConcurrent<T>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<void>,
+): Promise<void> {
+  let next = 0
+  const runners = Array.from(
+    { length: Math.min(limit, items.length) },
+    async () => {
+      while (next < items.length) {
+        await fn(items[next++])
+      }
+    },
+  )
+  await Promise.all(runners)
+}
+
 export async function convertObjZipsToGlb(
   zipFolder: string,
   outputFolder: string,
-  repair: boolean = false,
-) {
-  fs.mkdirSync(outputFolder, { recursive: true })
+  options: ConversionOptions = {},
+): Promise<ConversionSummary> {
+  const {
+    repair = false,
+    repairOptions = {},
+    lodRatios = [],
+    compression = null,
+    dryRun = false,
+    overwrite = "overwrite",
+    verbosity = "normal",
+    jobs = 1,
+    manifest: manifestPath = null,
+    retries = 0,
+    failedOnly = false,
+    logToStderr = false,
+  } = options
+  const log = createLogger(verbosity, logToStderr)
 
-  const zipFiles = fs
-    .readdirSync(zipFolder)
-    .filter((f) => f.toLowerCase().endsWith(".zip"))
+  const summary: ConversionSummary = {
+    input: path.resolve(zipFolder),
+    output: path.resolve(outputFolder),
+    repair,
+    dryRun,
+    startedAt: new Date().toISOString(),
+    finishedAt: "",
+    converted: 0,
+    skipped: 0,
+    failed: 0,
+    assets: [],
+  }
 
-  for (const outerZip of zipFiles) {
-    const outerZipPath = path.join(zipFolder, outerZip)
-    console.log(`Processing ${outerZip}...`)
+  if (!dryRun) fs.mkdirSync(outputFolder, { recursive: true })
 
-    const tmpOuter = fs.mkdtempSync(path.join(os.tmpdir(), "outer-"))
-    extractZip(outerZipPath, tmpOuter)
+  const manifest: Manifest = manifestPath
+    ? loadManifest(manifestPath)
+    : { version: 1, sources: {} }
+  const settings = JSON.stringify({
+    repair,
+    repairOptions,
+    lodRatios,
+    compression,
+  })
 
-    const innerZips = findFiles(tmpOuter, ".zip")
-    if (innerZips.length === 0) {
-      console.warn(`No inner zip found in ${outerZip}`)
-      continue
+  // Names recorded by earlier runs stay reserved so resumed runs never reuse them
+  const usedNames = new Set<string>()
+  for (const entry of Object.values(manifest.sources)) {
+    for (const { output } of entry.outputs) {
+      usedNames.add(path.parse(output).name.toLowerCase())
     }
+  }
 
-    for (const innerZip of innerZips) {
-      const tmpInner = fs.mkdtempSync(path.join(os.tmpdir(), "inner-"))
-      extractZip(innerZip, tmpInner)
+  const pool = jobs > 1 && !dryRun ? new ConversionPool(jobs) : null
 
-      const objFiles = findFiles(tmpInner, ".obj")
-      if (objFiles.length === 0) {
-        console.warn(`No .obj files found in ${innerZip}`)
-        continue
+  const convertSource = async (
+    source: ObjSource,
+    entry: ManifestEntry,
+    previous: ManifestEntry | undefined,
+  ) => {
+    const label = source.archive
+      ? path.join(source.archive, source.source)
+      : source.source
+    const outputName = uniqueOutputName(
+      source,
+      usedNames,
+      previous?.outputs.find(
+        (o) => o.archive === source.archive && o.source === source.source,
+      )?.output,
+    )
+    entry.outputs.push({
+      archive: source.archive,
+      source: source.source,
+      output: outputName,
+    })
+
+    const outPath = path.join(outputFolder, outputName)
+    const asset: ConvertedAsset = {
+      archive: source.archive,
+      source: source.source,
+      output: path.resolve(outPath),
+      status: "converted",
+    }
+    summary.assets.push(asset)
+
+    if (fs.existsSync(outPath) && overwrite !== "overwrite") {
+      if (overwrite === "skip") {
+        asset.status = "skipped"
+        summary.skipped++
+        log.verbose(`Skipping existing ${outPath}`)
+      } else {
+        asset.status = "failed"
+        asset.error = `Output already exists: ${outPath}`
+        summary.failed++
+        entry.status = "failed"
+        entry.error = asset.error
+        log.error(asset.error)
+      }
+      return
+    }
+
+    if (dryRun) {
+      asset.status = "planned"
+      log.info(`Would convert ${label} -> ${outPath}`)
+      return
+    }
+
+    const task: ConversionTask = {
+      objFile: source.objFile,
+      outputPath: outPath,
+      repair,
+      repairOptions,
+      lodRatios,
+      compression,
+      verbosity,
+      logToStderr,
+    }
+
+    for (let attempt = 0; attempt <= retries; attempt++) {
+      try {
+        asset.repairResults = pool
+          ? await pool.run(task)
+          : await runConversionTask(task)
+        asset.status = "converted"
+        asset.error = undefined
+        summary.converted++
+        return
+      } catch (error) {
+        asset.status = "failed"
+        asset.error = error instanceof Error ? error.message : String(error)
+        log.error(
+          `Failed to convert ${label} (attempt ${attempt + 1}): ${asset.error}`,
+        )
+      }
+    }
+
+    summary.failed++
+    entry.status = "failed"
+    entry.error = asset.error
+  }
+
+  const processTopLevel = async (sourcePath: string) => {
+    const key = path.relative(zipFolder, sourcePath)
+    const previous = manifest.sources[key]
+    const hash = await hashSource(sourcePath, settings)
+    const unchanged = previous?.hash === hash
+
+    if (failedOnly && previous?.status !== "failed") return
+
+    if (
+      unchanged &&
+      previous.status === "converted" &&
+      previous.outputs.every(({ output }) =>
+        fs.existsSync(path.join(outputFolder, output)),
+      )
+    ) {
+      for (const { archive, source, output } of previous.outputs) {
+        summary.assets.push({
+          archive,
+          source,
+          output: path.resolve(outputFolder, output),
+          status: "unchanged",
+        })
+        summary.skipped++
       }
+      log.verbose(`Unchanged since last run: ${key}`)
+      return
+    }
+
+    const entry: ManifestEntry = {
+      hash,
+      status: "converted",
+      attempts: (unchanged ? previous.attempts : 0) + 1,
+      outputs: [],
+      updatedAt: "",
+    }
 
-      for (const objFile of objFiles) {
-        const baseName = path.basename(objFile, ".obj") + ".glb"
-        const outPath = path.join(outputFolder, baseName)
+    if (!key.toLowerCase().endsWith(".zip")) {
+      await convertSource(
+        { objFile: sourcePath, archive: "", source: key },
+        entry,
+        previous,
+      )
+    } else {
+      log.info(`Processing ${key}...`)
 
-        if (repair) {
-          await convertObjToGlbWithRepair(objFile, outPath)
-        } else {
-          await convertObjToGlb(objFile, outPath)
+      const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "obj-zip-"))
+      try {
+        const sources = extractObjSources(sourcePath, tmpDir, key, 0, log)
+        if (sources.length === 0) {
+          log.warn(`No .obj files found in ${key}`)
         }
+
+        for (const source of sources) {
+          gatherCompanionFiles(source.objFile, tmpDir, log)
+        }
+        await Promise.all(
+          sources.map((source) => convertSource(source, entry, previous)),
+        )
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        summary.assets.push({
+          archive: key,
+          source: "",
+          output: "",
+          status: "failed",
+          error: message,
+        })
+        summary.failed++
+        entry.status = "failed"
+        entry.error = message
+        log.error(`Failed to process ${key}: ${message}`)
+      } finally {
+        fs.rmSync(tmpDir, { recursive: true, force: true })
       }
     }
+
+    if (!dryRun && manifestPath) {
+      entry.updatedAt = new Date().toISOString()
+      manifest.sources[key] = entry
+      saveManifest(manifestPath, manifest)
+    }
   }
+
+  try {
+    await forEachConcurrent(
+      [...findFiles(zipFolder, ".obj"), ...findFiles(zipFolder, ".zip")],
+      Math.max(jobs, 1),
+      processTopLevel,
+    )
+  } finally {
+    await pool?.close()
+  }
+
+  summary.assets.sort(
+    (a, b) =>
+      a.archive.localeCompare(b.archive) || a.source.localeCompare(b.source),
+  )
+  summary.finishedAt = new Date().toISOString()
+  return summary
 }
 
-convertObjZipsToGlb("../models_obj", "../models_glb_")
+const usage = `Usage: file_conversion <input-folder> <output-folder> [options]
+
+Converts every OBJ found in <input-folder> and in the zip archives below it,
+at any nesting depth, to GLB.
+
+Options:
+  --repair               Repair geometry before writing the GLB
+  --tolerance <number>   Vertex merge tolerance used by --repair (default 1e-6)
+  --skip <operations>    Comma-separated repair operations to disable:
+                         ${repairOperations.join(", ")}
+  --include <operations> Comma-separated optional repair operations to run as
+                         well, since they add or turn faces they are off by
+                         default: ${optionalRepairOperations.join(", ")}
+  --lod <ratios>         Comma-separated face ratios of MSFT_lod levels to add
+                         to every mesh, e.g. 0.5,0.25,0.1
+  --compress <method>    Compress geometry with ${compressionMethods.join(" or ")}. Textures
+                         are written as they are; KTX2/Basis texture
+                         compression is not supported
+  --overwrite <policy>   What to do with existing outputs:
+                         overwrite (default), skip or error
+  --summary <file>       Where to write the JSON summary, "-" for stdout
+                         (default <output-folder>/conversion_summary.json)
+  --dry-run              List the conversions without writing anything
+  -j, --jobs <number>    Convert this many OBJs in parallel worker threads
+                         (default 1, no workers)
+  --manifest <file>      Manifest of converted sources, used to skip unchanged
+                         sources on later runs
+                         (default <output-folder>/conversion_manifest.json)
+  --fresh                Ignore the existing manifest and convert everything
+  --retries <number>     Retry a failed conversion this many times (default 0)
+  --failed-only          Only convert sources the manifest lists as failed
+  -q, --quiet            Only report errors
+  -v, --verbose          Report repair progress
+  -h, --help             Show this message`
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      repair: { type: "boolean", default: false },
+      tolerance: { type: "string" },
+      skip: { type: "string", default: "" },
+      include: { type: "string", default: "" },
+      lod: { type: "string" },
+      compress: { type: "string" },
+      overwrite: { type: "string", default: "overwrite" },
+      summary: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      jobs: { type: "string", short: "j", default: "1" },
+      manifest: { type: "string" },
+      fresh: { type: "boolean", default: false },
+      retries: { type: "string", default: "0" },
+      "failed-only": { type: "boolean", default: false },
+      quiet: { type: "boolean", short: "q", default: false },
+      verbose: { type: "boolean", short: "v", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  const [input, output] = positionals
+  if (!input || !output) {
+    console.error(usage)
+    return 2
+  }
+
+  const overwrite = values.overwrite as OverwritePolicy
+  if (!["overwrite", "skip", "error"].includes(overwrite)) {
+    console.error(`Unknown overwrite policy: ${overwrite}`)
+    return 2
+  }
+
+  const jobs = Number(values.jobs)
+  const retries = Number(values.retries)
+  if (!Number.isInteger(jobs) || jobs < 1) {
+    console.error(`Invalid job count: ${values.jobs}`)
+    return 2
+  }
+  if (!Number.isInteger(retries) || retries < 0) {
+    console.error(`Invalid retry count: ${values.retries}`)
+    return 2
+  }
+
+  const manifest =
+    values.manifest ?? path.join(output, "conversion_manifest.json")
+  if (values.fresh && fs.existsSync(manifest) && !values["dry-run"]) {
+    fs.rmSync(manifest)
+  }
+
+  const repairOptions: MeshRepairOptions = {}
+  if (values.tolerance !== undefined) {
+    const tolerance = Number(values.tolerance)
+    if (!(tolerance > 0)) {
+      console.error(`Invalid tolerance: ${values.tolerance}`)
+      return 2
+    }
+    repairOptions.mergeTolerance = tolerance
+  }
+
+  const skipped = values.skip.split(",").filter(Boolean)
+  for (const operation of skipped) {
+    if (!repairOperations.some((name) => name === operation)) {
+      console.error(`Unknown repair operation: ${operation}`)
+      return 2
+    }
+  }
+  repairOptions.skipOperations = skipped
+
+  const included = values.include.split(",").filter(Boolean)
+  for (const operation of included) {
+    if (!optionalRepairOperations.some((name) => name === operation)) {
+      console.error(`Unknown optional repair operation: ${operation}`)
+      return 2
+    }
+  }
+  repairOptions.includeOperations = included
+
+  const lodRatios = parseLodRatios(values.lod ?? "")
+  if (!lodRatios) {
+    console.error(`Invalid LOD ratios: ${values.lod}`)
+    return 2
+  }
+
+  const compression = values.compress ?? null
+  if (compression !== null && !isCompressionMethod(compression)) {
+    console.error(`Unknown compression method: ${compression}`)
+    return 2
+  }
+
+  const summaryPath =
+    values.summary ??
+    (values["dry-run"] ? "-" : path.join(output, "conversion_summary.json"))
+  // Progress goes to stderr while stdout carries the JSON summary
+  const print = summaryPath === "-" ? console.error : console.log
+
+  const summary = await convertObjZipsToGlb(input, output, {
+    repair: values.repair,
+    repairOptions,
+    lodRatios,
+    compression,
+    dryRun: values["dry-run"],
+    overwrite,
+    jobs,
+    manifest: values.fresh && values["dry-run"] ? null : manifest,
+    retries,
+    failedOnly: values["failed-only"],
+    verbosity: values.quiet ? "quiet" : values.verbose ? "verbose" : "normal",
+    logToStderr: summaryPath === "-",
+  })
+
+  const summaryJson = JSON.stringify(summary, null, 2)
+  if (summaryPath === "-") {
+    console.log(summaryJson)
+  } else {
+    fs.writeFileSync(summaryPath, summaryJson, "utf8")
+  }
+
+  if (!values.quiet) {
+    print(
+      `Converted ${summary.converted}, skipped ${summary.skipped}, failed ${summary.failed}`,
+    )
+  }
+
+  return summary.failed > 0 ? 1 : 0
+}
+
+if (
+  isMainThread &&
+  import.meta.url === pathToFileURL(process.argv[1] ?? "").href
+) {
+  main(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code
+    })
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error)
+      process.exitCode = 1
+    })
+}
@@ -1,51 +1,362 @@
 import * as fs from "node:fs"
-import { NodeIO } from "@gltf-transform/core"
+import * as path from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseArgs } from "node:util"
+import {
+  type Document,
+  getBounds,
+  type Mesh,
+  Node,
+  Primitive,
+} from "@gltf-transform/core"
 import { findFiles } from "../lib/fs_utils"
+import { createNodeIO } from "../lib/gltf_compression"
+import { Lod } from "../lib/gltf_lod"
 
-async function extractMeshNames(path: string) {
-  const glbFiles = findFiles(path, ".glb")
+export interface TextureReport {
+  name: string
+  uri: string
+  mimeType: string
+  width: number | null
+  height: number | null
+}
+
+export interface ModelCounts {
+  nodes: number
+  meshes: number
+  primitives: number
+  vertices: number
+  triangles: number
+  materials: number
+  textures: number
+  animations: number
+  skins: number
+  // MSFT_lod level nodes, which are left out of the other counts
+  lodLevels: number
+}
+
+export interface FileReport extends ModelCounts {
+  file: string
+  textureDetails: TextureReport[]
+  dimensions: [number, number, number] | null
+  missingNormals: boolean
+  missingUvs: boolean
+  meshNames: string[]
+  attributes: string[]
+  error?: string
+}
 
-  if (glbFiles.length === 0) {
-    console.warn(`No .glb files found in ${path}`)
-    return
+export interface LibraryReport {
+  path: string
+  files: number
+  failedFiles: number
+  totals: ModelCounts
+  filesMissingNormals: string[]
+  filesMissingUvs: string[]
+  meshNames: string[]
+  attributes: string[]
+  reports: FileReport[]
+}
+
+const countKeys: (keyof ModelCounts)[] = [
+  "nodes",
+  "meshes",
+  "primitives",
+  "vertices",
+  "triangles",
+  "materials",
+  "textures",
+  "animations",
+  "skins",
+  "lodLevels",
+]
+
+function emptyCounts(): ModelCounts {
+  return {
+    nodes: 0,
+    meshes: 0,
+    primitives: 0,
+    vertices: 0,
+    triangles: 0,
+    materials: 0,
+    textures: 0,
+    animations: 0,
+    skins: 0,
+    lodLevels: 0,
   }
+}
 
-  const meshNames = new Set<string>()
-  const meshAttributes = new Set<string>()
-  const io = new NodeIO()
+function countTriangles(primitive: Primitive): number {
+  const indices = primitive.getIndices()
+  const position = primitive.getAttribute("POSITION")
+  const count = indices ? indices.getCount() : (position?.getCount() ?? 0)
+
+  switch (primitive.getMode()) {
+    case Primitive.Mode.TRIANGLES:
+      return Math.floor(count / 3)
+    case Primitive.Mode.TRIANGLE_STRIP:
+    case Primitive.Mode.TRIANGLE_FAN:
+      return Math.max(count - 2, 0)
+    default:
+      return 0
+  }
+}
+
+function isTriangleMode(primitive: Primitive): boolean {
+  const mode = primitive.getMode()
+  return (
+    mode === Primitive.Mode.TRIANGLES ||
+    mode === Primitive.Mode.TRIANGLE_STRIP ||
+    mode === Primitive.Mode.TRIANGLE_FAN
+  )
+}
+
+function listLodLevels(document: Document): Set<Node> {
+  const levels = new Set<Node>()
+  for (const node of document.getRoot().listNodes()) {
+    const lod = node.getExtension<Lod>(Lod.EXTENSION_NAME)
+    for (const level of lod?.listLevels() ?? []) levels.add(level)
+  }
+  return levels
+}
+
+// Meshes only referenced by LOD levels, unlike meshes without any node
+function isLodMesh(mesh: Mesh, levels: Set<Node>): boolean {
+  const nodes = mesh.listParents().filter((parent) => parent instanceof Node)
+  return nodes.length > 0 && nodes.every((node) => levels.has(node))
+}
+
+export function analyzeDocument(document: Document, file: string): FileReport {
+  const root = document.getRoot()
   const suffix = /(_[0-9]+)+/g
+  const levels = listLodLevels(document)
+  const meshes = root.listMeshes().filter((mesh) => !isLodMesh(mesh, levels))
+
+  const report: FileReport = {
+    file,
+    ...emptyCounts(),
+    nodes: root.listNodes().length - levels.size,
+    meshes: meshes.length,
+    materials: root.listMaterials().length,
+    textures: root.listTextures().length,
+    animations: root.listAnimations().length,
+    skins: root.listSkins().length,
+    lodLevels: levels.size,
+    textureDetails: [],
+    dimensions: null,
+    missingNormals: false,
+    missingUvs: false,
+    meshNames: [],
+    attributes: [],
+  }
+
+  const meshNames = new Set<string>()
+  const attributes = new Set<string>()
+  const positionAccessors = new Set<unknown>()
+
+  for (const mesh of meshes) {
+    const name = mesh.getName()
+    if (name) meshNames.add(name.replace(suffix, ""))
+
+    for (const primitive of mesh.listPrimitives()) {
+      report.primitives++
+      report.triangles += countTriangles(primitive)
+
+      for (const semantic of primitive.listSemantics()) {
+        attributes.add(semantic)
+      }
+
+      // Primitives may share one vertex stream, which should only count once
+      const position = primitive.getAttribute("POSITION")
+      if (position && !positionAccessors.has(position)) {
+        positionAccessors.add(position)
+        report.vertices += position.getCount()
+      }
+
+      if (isTriangleMode(primitive)) {
+        if (!primitive.getAttribute("NORMAL")) report.missingNormals = true
+        if (!primitive.getAttribute("TEXCOORD_0")) report.missingUvs = true
+      }
+    }
+  }
+
+  for (const texture of root.listTextures()) {
+    const size = texture.getSize()
+    report.textureDetails.push({
+      name: texture.getName(),
+      uri: texture.getURI(),
+      mimeType: texture.getMimeType(),
+      width: size ? size[0] : null,
+      height: size ? size[1] : null,
+    })
+  }
+
+  const scene = root.getDefaultScene() ?? root.listScenes()[0]
+  if (scene && scene.listChildren().length > 0) {
+    const { min, max } = getBounds(scene)
+    if (min.every(Number.isFinite) && max.every(Number.isFinite)) {
+      report.dimensions = [max[0] - min[0], max[1] - min[1], max[2] - min[2]]
+    }
+  }
+
+  report.meshNames = Array.from(meshNames).sort()
+  report.attributes = Array.from(attributes).sort()
+  return report
+}
+
+export async function analyzeLibrary(folder: string): Promise<LibraryReport> {
+  const glbFiles = findFiles(folder, ".glb")
+  const io = await createNodeIO()
+
+  const library: LibraryReport = {
+    path: path.resolve(folder),
+    files: glbFiles.length,
+    failedFiles: 0,
+    totals: emptyCounts(),
+    filesMissingNormals: [],
+    filesMissingUvs: [],
+    meshNames: [],
+    attributes: [],
+    reports: [],
+  }
+
+  const meshNames = new Set<string>()
+  const attributes = new Set<string>()
 
   for (const glbFile of glbFiles) {
-    const document = await io.read(glbFile)
-    document
-      .getRoot()
-      .listMeshes()
-      .forEach((mesh) => {
-        let name = mesh.getName()
-        if (name) {
-          name = name.replace(suffix, "")
-          meshNames.add(name)
-        }
-        console.log(mesh.listPrimitives())
-        mesh.listPrimitives().forEach((primitive) => {
-          primitive.listAttributes().map((attr) => {
-            meshAttributes.add(attr.getName())
-          })
-        })
+    const file = path.relative(folder, glbFile)
+    let report: FileReport
+
+    try {
+      report = analyzeDocument(await io.read(glbFile), file)
+    } catch (error) {
+      library.failedFiles++
+      library.reports.push({
+        file,
+        ...emptyCounts(),
+        textureDetails: [],
+        dimensions: null,
+        missingNormals: false,
+        missingUvs: false,
+        meshNames: [],
+        attributes: [],
+        error: error instanceof Error ? error.message : String(error),
       })
+      continue
+    }
+
+    library.reports.push(report)
+    for (const key of countKeys) {
+      library.totals[key] += report[key]
+    }
+    if (report.missingNormals) library.filesMissingNormals.push(file)
+    if (report.missingUvs) library.filesMissingUvs.push(file)
+    for (const name of report.meshNames) meshNames.add(name)
+    for (const attribute of report.attributes) attributes.add(attribute)
   }
-  console.log(meshAttributes)
 
-  if (meshNames.size === 0) {
-    console.warn(`No mesh names found in ${path}`)
-    return
+  library.meshNames = Array.from(meshNames).sort()
+  library.attributes = Array.from(attributes).sort()
+  return library
+}
+
+function csvField(value: string | number | boolean | null): string {
+  const text = value === null ? "" : String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function libraryReportToCsv(library: LibraryReport): string {
+  const header = [
+    "file",
+    ...countKeys,
+    "textureSizes",
+    "sizeX",
+    "sizeY",
+    "sizeZ",
+    "missingNormals",
+    "missingUvs",
+    "error",
+  ]
+
+  const rows = library.reports.map((report) => [
+    report.file,
+    ...countKeys.map((key) => report[key]),
+    report.textureDetails
+      .map((t) => `${t.width ?? "?"}x${t.height ?? "?"} ${t.mimeType}`)
+      .join("; "),
+    report.dimensions?.[0] ?? null,
+    report.dimensions?.[1] ?? null,
+    report.dimensions?.[2] ?? null,
+    report.missingNormals,
+    report.missingUvs,
+    report.error ?? null,
+  ])
+
+  return [header, ...rows]
+    .map((row) => row.map((value) => csvField(value)).join(","))
+    .join("\n")
+}
+
+const usage = `Usage: model_analysis <glb-folder> [options]
+
+Audits every GLB below <glb-folder> and writes a JSON and a CSV report.
+
+Options:
+  --json <file>   JSON report path (default model_report.json)
+  --csv <file>    CSV report path, one row per file (default model_report.csv)
+  -h, --help      Show this message`
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      json: { type: "string", default: "model_report.json" },
+      csv: { type: "string", default: "model_report.csv" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  const [folder] = positionals
+  if (!folder) {
+    console.error(usage)
+    return 2
   }
 
-  fs.writeFileSync(
-    "mesh_names.txt",
-    Array.from(meshNames).sort().join("\n"),
-    "utf8",
+  const library = await analyzeLibrary(folder)
+  if (library.files === 0) {
+    console.warn(`No .glb files found in ${folder}`)
+    return 0
+  }
+
+  fs.writeFileSync(values.json, JSON.stringify(library, null, 2), "utf8")
+  fs.writeFileSync(values.csv, libraryReportToCsv(library), "utf8")
+
+  const { totals } = library
+  console.log(
+    `${library.files} files: ${totals.meshes} meshes, ${totals.vertices} vertices, ${totals.triangles} triangles, ${totals.textures} textures`,
   )
+  if (totals.lodLevels > 0) {
+    console.log(`${totals.lodLevels} LOD level nodes left out of the counts`)
+  }
+  if (library.filesMissingNormals.length > 0) {
+    console.log(`${library.filesMissingNormals.length} files missing normals`)
+  }
+  if (library.filesMissingUvs.length > 0) {
+    console.log(`${library.filesMissingUvs.length} files missing UVs`)
+  }
+  if (library.failedFiles > 0) {
+    console.error(`${library.failedFiles} files could not be read`)
+    return 1
+  }
+  return 0
 }
 
-await extractMeshNames("../models_glb")
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  process.exitCode = await main(process.argv.slice(2))
+}
@@ -0,0 +1,228 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseArgs } from "node:util"
+import { findFiles } from "../lib/fs_utils"
+import {
+  type MeshRepairOptions,
+  optionalRepairOperations,
+  repairOperations,
+} from "../lib/geometry_fix_core"
+import {
+  type CompressionMethod,
+  compressDocument,
+  compressionMethods,
+  createNodeIO,
+  isCompressionMethod,
+} from "../lib/gltf_compression"
+import { addLodLevels, type LodResults, parseLodRatios } from "../lib/gltf_lod"
+import { type GltfRepairResults, repairDocument } from "../lib/gltf_repair"
+
+export interface RepairedFile {
+  file: string
+  output: string | null
+  results?: GltfRepairResults
+  lod?: LodResults
+  error?: string
+}
+
+export interface GlbRepairOptions extends MeshRepairOptions {
+  outputFolder?: string
+  dryRun?: boolean
+  // Simplification ratios of the MSFT_lod levels added after repairing
+  lodRatios?: number[]
+  compression?: CompressionMethod | null
+}
+
+export async function repairGlbFiles(
+  folder: string,
+  options: GlbRepairOptions = {},
+): Promise<RepairedFile[]> {
+  const {
+    outputFolder,
+    dryRun = false,
+    lodRatios = [],
+    compression = null,
+    ...repairOptions
+  } = options
+  const io = await createNodeIO()
+  const repaired: RepairedFile[] = []
+
+  for (const glbFile of findFiles(folder, ".glb")) {
+    const file = path.relative(folder, glbFile)
+    const output = outputFolder ? path.join(outputFolder, file) : glbFile
+
+    try {
+      const document = await io.read(glbFile)
+      const results = repairDocument(document, repairOptions)
+      const lod =
+        lodRatios.length > 0
+          ? addLodLevels(document, lodRatios, {
+              mergeTolerance: repairOptions.mergeTolerance,
+            })
+          : undefined
+      if (compression) await compressDocument(document, compression)
+
+      if (!dryRun) {
+        // Write next to the target first so an interrupted run never leaves a truncated GLB
+        fs.mkdirSync(path.dirname(output), { recursive: true })
+        const temporary = `${output}.tmp`
+        fs.writeFileSync(temporary, await io.writeBinary(document))
+        fs.renameSync(temporary, output)
+      }
+
+      repaired.push({ file, output: dryRun ? null : output, results, lod })
+    } catch (error) {
+      repaired.push({
+        file,
+        output: null,
+        error: error instanceof Error ? error.message : String(error),
+      })
+    }
+  }
+
+  return repaired
+}
+
+const usage = `Usage: model_repair <glb-folder> [options]
+
+Repairs the geometry of every GLB below <glb-folder>. Files are rewritten in
+place unless --output is given; materials, textures, skins, node hierarchy
+and extensions are kept.
+
+Options:
+  -o, --output <dir>   Write repaired files to <dir>, mirroring the input tree
+  --tolerance <n>      Vertex merge tolerance (default 0.000001)
+  --skip <ops>         Comma-separated operations to skip:
+                       ${repairOperations.join(", ")}
+                       (default recalculateNormals, keeping authored normals)
+  --include <ops>      Comma-separated optional operations to run as well,
+                       since they add or turn faces they are off by default:
+                       ${optionalRepairOperations.join(", ")}
+  --lod <ratios>       Comma-separated face ratios of MSFT_lod levels to add
+                       to every mesh, e.g. 0.5,0.25,0.1
+  --compress <method>  Compress geometry with ${compressionMethods.join(" or ")}. Textures
+                       are written as they are; KTX2/Basis texture
+                       compression is not supported
+  --report <file>      Write a JSON report (- for stdout)
+  --dry-run            Report repairs without writing files
+  -h, --help           Show this message`
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      output: { type: "string", short: "o" },
+      tolerance: { type: "string" },
+      skip: { type: "string", default: "recalculateNormals" },
+      include: { type: "string", default: "" },
+      lod: { type: "string" },
+      compress: { type: "string" },
+      report: { type: "string" },
+      "dry-run": { type: "boolean", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  const [folder] = positionals
+  if (!folder) {
+    console.error(usage)
+    return 2
+  }
+
+  const options: GlbRepairOptions = {
+    outputFolder: values.output,
+    dryRun: values["dry-run"],
+  }
+
+  if (values.tolerance !== undefined) {
+    const tolerance = Number(values.tolerance)
+    if (!(tolerance > 0)) {
+      console.error(`Invalid tolerance: ${values.tolerance}`)
+      return 2
+    }
+    options.mergeTolerance = tolerance
+  }
+
+  const skipped = values.skip.split(",").filter(Boolean)
+  for (const operation of skipped) {
+    if (!repairOperations.some((name) => name === operation)) {
+      console.error(`Unknown repair operation: ${operation}`)
+      return 2
+    }
+  }
+  options.skipOperations = skipped
+
+  const included = values.include.split(",").filter(Boolean)
+  for (const operation of included) {
+    if (!optionalRepairOperations.some((name) => name === operation)) {
+      console.error(`Unknown optional repair operation: ${operation}`)
+      return 2
+    }
+  }
+  options.includeOperations = included
+
+  const lodRatios = parseLodRatios(values.lod ?? "")
+  if (!lodRatios) {
+    console.error(`Invalid LOD ratios: ${values.lod}`)
+    return 2
+  }
+  options.lodRatios = lodRatios
+
+  const compression = values.compress ?? null
+  if (compression !== null && !isCompressionMethod(compression)) {
+    console.error(`Unknown compression method: ${compression}`)
+    return 2
+  }
+  options.compression = compression
+
+  const repaired = await repairGlbFiles(folder, options)
+  if (repaired.length === 0) {
+    console.warn(`No .glb files found in ${folder}`)
+    return 0
+  }
+
+  // Results go to stderr while stdout carries the JSON report
+  const print = values.report === "-" ? console.error : console.log
+  for (const { file, results, lod, error } of repaired) {
+    if (error || !results) {
+      console.error(`FAIL ${file}: ${error}`)
+      continue
+    }
+    const counts = Object.entries(results.repairs)
+      .filter(([, count]) => count > 0)
+      .map(([name, count]) => `${name} ${count}`)
+    print(`${file}: ${counts.length > 0 ? counts.join(", ") : "clean"}`)
+    if (lod && lod.nodes > 0) {
+      print(`  LOD faces: ${lod.faces.join(" / ")}`)
+    }
+  }
+
+  if (values.report !== undefined) {
+    const json = JSON.stringify(repaired, null, 2)
+    if (values.report === "-") {
+      console.log(json)
+    } else {
+      fs.writeFileSync(values.report, json, "utf8")
+    }
+  }
+
+  return repaired.some((file) => file.error) ? 1 : 0
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  main(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code
+    })
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error)
+      process.exitCode = 1
+    })
+}
@@ -0,0 +1,319 @@
+import * as fs from "node:fs"
+import * as path from "node:path"
+import { pathToFileURL } from "node:url"
+import { parseArgs } from "node:util"
+import { type Accessor, type NodeIO, Primitive } from "@gltf-transform/core"
+import { findFiles } from "../lib/fs_utils"
+import { sumAnalyses, type TotalStats } from "../lib/geometry_fix"
+import {
+  analyzeMeshBuffers,
+  type GeometryAnalysis,
+} from "../lib/geometry_fix_core"
+import { createNodeIO } from "../lib/gltf_compression"
+
+export interface ValidationThresholds {
+  maxDuplicateVertices: number
+  maxLooseVertices: number
+  maxNonManifoldEdges: number
+  maxNonManifoldVertices: number
+  maxDegenerateFaces: number
+  maxBoundaryEdges: number
+}
+
+export interface FileValidation {
+  file: string
+  passed: boolean
+  failures: string[]
+  totalStats: TotalStats
+  meshAnalysis: GeometryAnalysis[]
+  error?: string
+}
+
+// Unlimited thresholds are written as null, since JSON has no infinity
+export type ReportedThresholds = {
+  [K in keyof ValidationThresholds]: number | null
+}
+
+export interface ValidationReport {
+  path: string
+  thresholds: ReportedThresholds
+  files: number
+  passed: number
+  failed: number
+  results: FileValidation[]
+}
+
+// Matches the checks of GeometryRepairer.validateManifoldGeometry; duplicate
+// vertices and open boundaries are common in valid glTF and are not limited
+export const defaultThresholds: ValidationThresholds = {
+  maxDuplicateVertices: Number.POSITIVE_INFINITY,
+  maxLooseVertices: 0,
+  maxNonManifoldEdges: 0,
+  maxNonManifoldVertices: 0,
+  maxDegenerateFaces: 0,
+  maxBoundaryEdges: Number.POSITIVE_INFINITY,
+}
+
+const thresholdChecks: [keyof ValidationThresholds, keyof TotalStats][] = [
+  ["maxDuplicateVertices", "duplicateVertices"],
+  ["maxLooseVertices", "looseVertices"],
+  ["maxNonManifoldEdges", "nonManifoldEdges"],
+  ["maxNonManifoldVertices", "nonManifoldVertices"],
+  ["maxDegenerateFaces", "degenerateFaces"],
+  ["maxBoundaryEdges", "boundaryEdges"],
+]
+
+function readPositions(accessor: Accessor): Float32Array {
+  const array = accessor.getArray()
+  if (array instanceof Float32Array && !accessor.getNormalized()) return array
+
+  // Quantized or normalized positions are decoded the same way the viewer does
+  const count = accessor.getCount()
+  const positions = new Float32Array(count * 3)
+  const element: number[] = []
+  for (let i = 0; i < count; i++) {
+    accessor.getElement(i, element)
+    positions.set(element, i * 3)
+  }
+  return positions
+}
+
+function readTriangleIndices(primitive: Primitive): ArrayLike<number> | null {
+  const mode = primitive.getMode()
+  const indices = primitive.getIndices()?.getArray() ?? null
+
+  if (mode === Primitive.Mode.TRIANGLES) return indices
+  if (
+    mode !== Primitive.Mode.TRIANGLE_STRIP &&
+    mode !== Primitive.Mode.TRIANGLE_FAN
+  ) {
+    return null
+  }
+
+  const count =
+    indices?.length ?? primitive.getAttribute("POSITION")?.getCount() ?? 0
+  const index = (i: number) => (indices ? indices[i] : i)
+  const triangles: number[] = []
+
+  for (let i = 2; i < count; i++) {
+    if (mode === Primitive.Mode.TRIANGLE_FAN) {
+      triangles.push(index(0), index(i - 1), index(i))
+    } else if (i % 2 === 0) {
+      triangles.push(index(i - 2), index(i - 1), index(i))
+    } else {
+      triangles.push(index(i - 1), index(i - 2), index(i))
+    }
+  }
+  return triangles
+}
+
+export async function validateFile(
+  io: NodeIO,
+  glbFile: string,
+  file: string,
+  thresholds: ValidationThresholds,
+): Promise<FileValidation> {
+  const result: FileValidation = {
+    file,
+    passed: false,
+    failures: [],
+    totalStats: sumAnalyses([]),
+    meshAnalysis: [],
+  }
+
+  try {
+    const document = await io.read(glbFile)
+    const { meshAnalysis } = result
+
+    for (const mesh of document.getRoot().listMeshes()) {
+      const primitives = mesh.listPrimitives()
+
+      primitives.forEach((primitive, primitiveIndex) => {
+        const mode = primitive.getMode()
+        const position = primitive.getAttribute("POSITION")
+        if (
+          !position ||
+          mode === Primitive.Mode.POINTS ||
+          mode === Primitive.Mode.LINES ||
+          mode === Primitive.Mode.LINE_LOOP ||
+          mode === Primitive.Mode.LINE_STRIP
+        ) {
+          return
+        }
+
+        // The viewer loads every primitive as its own THREE.Mesh
+        const analysis = analyzeMeshBuffers(
+          readPositions(position),
+          readTriangleIndices(primitive),
+        )
+        const name = mesh.getName() || `Mesh_${meshAnalysis.length}`
+        analysis.meshName =
+          primitives.length > 1 ? `${name}_${primitiveIndex}` : name
+        analysis.meshIndex = meshAnalysis.length
+        meshAnalysis.push(analysis)
+      })
+    }
+
+    const totalStats = sumAnalyses(meshAnalysis)
+    result.totalStats = totalStats
+
+    for (const [threshold, stat] of thresholdChecks) {
+      const value = totalStats[stat] ?? 0
+      if (value > thresholds[threshold]) {
+        result.failures.push(`${stat} ${value} > ${thresholds[threshold]}`)
+      }
+    }
+    result.passed = result.failures.length === 0
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error)
+    result.failures.push("unreadable")
+  }
+
+  return result
+}
+
+export async function validateLibrary(
+  folder: string,
+  thresholds: Partial<ValidationThresholds> = {},
+): Promise<ValidationReport> {
+  const glbFiles = findFiles(folder, ".glb")
+  const io = await createNodeIO()
+  const limits = { ...defaultThresholds, ...thresholds }
+
+  const report: ValidationReport = {
+    path: path.resolve(folder),
+    thresholds: Object.fromEntries(
+      Object.entries(limits).map(([name, limit]) => [
+        name,
+        Number.isFinite(limit) ? limit : null,
+      ]),
+    ) as ReportedThresholds,
+    files: glbFiles.length,
+    passed: 0,
+    failed: 0,
+    results: [],
+  }
+
+  for (const glbFile of glbFiles) {
+    const result = await validateFile(
+      io,
+      glbFile,
+      path.relative(folder, glbFile),
+      limits,
+    )
+    report.results.push(result)
+    if (result.passed) {
+      report.passed++
+    } else {
+      report.failed++
+    }
+  }
+
+  return report
+}
+
+const usage = `Usage: model_validation <glb-folder> [options]
+
+Runs the GeometryRepairer mesh analysis on every GLB below <glb-folder> and
+fails files whose issue counts exceed the thresholds. Exits with 1 if any
+file fails. Unlimited thresholds are written as null in the report.
+
+Options:
+  --report <file>                  JSON report path (default validation_report.json, - for stdout)
+  --max-duplicate-vertices <n>     (default unlimited)
+  --max-loose-vertices <n>         (default 0)
+  --max-non-manifold-edges <n>     (default 0)
+  --max-non-manifold-vertices <n>  (default 0)
+  --max-degenerate-faces <n>       (default 0)
+  --max-boundary-edges <n>         (default unlimited)
+  -q, --quiet                      Only print failing files
+  -h, --help                       Show this message`
+
+const thresholdOptions = {
+  "max-duplicate-vertices": "maxDuplicateVertices",
+  "max-loose-vertices": "maxLooseVertices",
+  "max-non-manifold-edges": "maxNonManifoldEdges",
+  "max-non-manifold-vertices": "maxNonManifoldVertices",
+  "max-degenerate-faces": "maxDegenerateFaces",
+  "max-boundary-edges": "maxBoundaryEdges",
+} as const satisfies Record<string, keyof ValidationThresholds>
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      report: { type: "string", default: "validation_report.json" },
+      "max-duplicate-vertices": { type: "string" },
+      "max-loose-vertices": { type: "string" },
+      "max-non-manifold-edges": { type: "string" },
+      "max-non-manifold-vertices": { type: "string" },
+      "max-degenerate-faces": { type: "string" },
+      "max-boundary-edges": { type: "string" },
+      quiet: { type: "boolean", short: "q", default: false },
+      help: { type: "boolean", short: "h", default: false },
+    },
+  })
+
+  if (values.help) {
+    console.log(usage)
+    return 0
+  }
+
+  const [folder] = positionals
+  if (!folder) {
+    console.error(usage)
+    return 2
+  }
+
+  const thresholds: Partial<ValidationThresholds> = {}
+  for (const [option, key] of Object.entries(thresholdOptions)) {
+    const value = values[option as keyof typeof thresholdOptions]
+    if (value === undefined) continue
+
+    const limit = Number(value)
+    if (!Number.isInteger(limit) || limit < 0) {
+      console.error(`Invalid --${option}: ${value}`)
+      return 2
+    }
+    thresholds[key] = limit
+  }
+
+  const report = await validateLibrary(folder, thresholds)
+  if (report.files === 0) {
+    console.warn(`No .glb files found in ${folder}`)
+    return 0
+  }
+
+  // Results go to stderr while stdout carries the JSON report
+  const print = values.report === "-" ? console.error : console.log
+  for (const result of report.results) {
+    if (result.passed) {
+      if (!values.quiet) print(`PASS ${result.file}`)
+    } else {
+      const reason = result.error ?? result.failures.join(", ")
+      print(`FAIL ${result.file}: ${reason}`)
+    }
+  }
+
+  const json = JSON.stringify(report, null, 2)
+  if (values.report === "-") {
+    console.log(json)
+  } else {
+    fs.writeFileSync(values.report, json, "utf8")
+  }
+
+  print(`${report.passed} passed, ${report.failed} failed`)
+  return report.failed > 0 ? 1 : 0
+}
+
+if (import.meta.url === pathToFileURL(process.argv[1] ?? "").href) {
+  main(process.argv.slice(2))
+    .then((code) => {
+      process.exitCode = code
+    })
+    .catch((error) => {
+      console.error(error instanceof Error ? error.message : error)
+      process.exitCode = 1
+    })
+}